@@ -0,0 +1,34 @@
+// Next.js App Router API Route: APNs signing status
+// Reports which key signed the cached provider token (JWT) and when it expires,
+// plus the keyring's keys and which of them were retired - never key material.
+// With certificate auth, reports the push certificate's subject and expiry instead
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAPNsClient } from '@/lib/apns-client';
+
+export async function GET(request: NextRequest) {
+  // Security: Verify request has valid secret
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+
+  if (!expectedSecret || secret !== expectedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const apnsClient = getAPNsClient();
+  const keyring = apnsClient.getKeyringStatus();
+
+  return NextResponse.json({
+    configured: apnsClient.isConfigured(),
+    authMode: apnsClient.getAuthMode(),
+    keyring,
+    certificate: apnsClient.getCertificateStatus(),
+    // Each serverless instance caches its own token - null until this instance has sent a push
+    currentToken: keyring?.cachedToken || null,
+    timestamp: new Date().toISOString()
+  }, {
+    headers: {
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+    },
+  });
+}
@@ -1,3 +1,6 @@
+import { getAllActiveActivities } from '@/lib/session-store';
+import { wakePlayers } from '@/lib/background-push';
+
 export async function GET(request: Request) {
   const cronSecret = request.headers.get('authorization');
   const expectedSecret = process.env.CRON_SECRET;
@@ -6,61 +9,35 @@ export async function GET(request: Request) {
     return Response.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
   }
 
-  const appId = process.env.ONESIGNAL_APP_ID?.trim();
-  const restKey = process.env.ONESIGNAL_REST_API_KEY?.trim();
-
-  if (!appId || !restKey) {
-    return Response.json({ ok: false, error: 'Missing credentials' }, { status: 500 });
-  }
-
-  console.log(`[Cron] Using App ID: ${appId.substring(0, 8)}... (length: ${appId.length})`);
-  console.log(`[Cron] Using REST Key: ${restKey.substring(0, 15)}... (length: ${restKey.length})`);
-
-  const payload = {
-    app_id: appId,
-    filters: [{ field: 'tag', key: 'charging', relation: '=', value: 'true' }],
-    // Silent push: content_available=true with no title/body makes it a background push
-    content_available: true,
-    // No title/body = silent notification (OneSignal automatically sets APNs push type to background)
-    data: { type: 'petl-bg-update', timestamp: new Date().toISOString() },
-    ttl: 300,  // 5 minutes TTL
-  };
-
-  console.log('[Cron] Sending silent push with payload:', JSON.stringify(payload));
-
   try {
-    const response = await fetch('https://api.onesignal.com/notifications', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${restKey}`,
-      },
-      body: JSON.stringify(payload),
-    });
+    // Devices with an active charging Live Activity (replaces OneSignal's `charging` tag filter)
+    const activeActivities = await getAllActiveActivities();
+    const playerIds = activeActivities.map(s => s.playerId);
 
-    const result = await response.json();
-    
-    console.log('[Cron] OneSignal response:', JSON.stringify(result));
-    
-    if (!response.ok) {
-      console.error('[Cron] OneSignal error:', result);
-      return Response.json({ ok: false, error: 'OneSignal error', details: result }, { status: response.status });
+    if (playerIds.length === 0) {
+      console.log('[Cron] No active Live Activities - no devices to wake');
+      return Response.json({ ok: true, recipients: 0, message: 'No charging devices to wake' });
     }
 
-    // For silent pushes, OneSignal doesn't return recipients count
-    // If we get an ID and no errors, the push was sent successfully
-    const hasId = result.id && result.id !== '';
-    const hasErrors = result.errors && result.errors.length > 0;
-    
-    if (hasId && !hasErrors) {
-      console.log(`[Cron] ✅ Silent push sent successfully! ID: ${result.id}`);
-      return Response.json({ ok: true, recipients: 'sent', id: result.id, message: 'Silent push sent to tagged devices' });
-    } else {
-      console.log(`[Cron] ❌ Silent push failed. ID: ${result.id || 'none'}, Errors: ${JSON.stringify(result.errors || [])}`);
+    // Silent push: APNs background push to registered device tokens, OneSignal for the rest
+    const result = await wakePlayers(playerIds, { type: 'petl-bg-update', timestamp: new Date().toISOString() });
+
+    if (result.failed.length > 0 && result.apns + result.onesignal === 0) {
+      console.log(`[Cron] ❌ Silent push failed for all ${result.failed.length} players`);
       return Response.json({ ok: false, error: 'Push failed', details: result }, { status: 500 });
     }
+
+    console.log(`[Cron] ✅ Silent push sent - ${result.apns} via APNs, ${result.onesignal} via OneSignal`);
+    return Response.json({
+      ok: true,
+      recipients: result.apns + result.onesignal,
+      apns: result.apns,
+      onesignal: result.onesignal,
+      failed: result.failed.length,
+      message: 'Silent push sent to charging devices'
+    });
   } catch (error: any) {
-    console.error('[Cron] Fetch error:', error.message);
+    console.error('[Cron] Silent push error:', error.message);
     return Response.json({ ok: false, error: error.message }, { status: 500 });
   }
 }
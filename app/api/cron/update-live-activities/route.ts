@@ -1,11 +1,67 @@
 // Next.js App Router API Route: Update Live Activities directly via OneSignal
 // This is called by Vercel Cron every 3 minutes
-import { getAPNsClient } from '@/lib/apns-client';
+import { getAPNsClient, type APNsSendResult } from '@/lib/apns-client';
 // Directly updates Live Activities via OneSignal API using stored push tokens
 // Reference: https://documentation.onesignal.com/docs/en/live-activities-developer-setup
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllActiveActivities } from '@/lib/session-store';
+import { getAllActiveActivities, cleanupStaleActivities, transitionActivity, getActivitiesForPushToken, getMilestoneConfig, recordFiredMilestones, setActivityApnsEnvironment, getChannel, getStateHistory, type ActivitySession, type Lease } from '@/lib/session-store';
+import type { LiveActivityUpdatePayload } from '@/lib/apns-client';
+import { projectState, PROJECTION_SAMPLES } from '@/lib/soc-projection';
+import { isUnregistered } from '@/lib/apns-errors';
+import { detectMilestones, type MilestoneResult } from '@/lib/milestones';
+import { computeStaleDate } from '@/lib/push-policy';
+import { wakePlayers } from '@/lib/background-push';
+import { validateContentState, checkPayloadSize } from '@/lib/content-state';
+import { acquireUpdateCronLease, checkUpdateCronLease, releaseUpdateCronLease, getUpdateCronLease } from '@/lib/cron-lease';
+
+// Vercel Cron schedule (vercel.json: every 3 minutes) - the next push is expected this soon
+const CRON_INTERVAL_MS = 3 * 60 * 1000;
+
+// Activities without an update for this long are ended
+const STALE_THRESHOLD_MS = 15 * 60 * 1000;
+
+// Activities without an update for this long are marked stale and the app is woken to report
+const NO_UPDATES_THRESHOLD_MS = 5 * 60 * 1000;
+
+// Wait before retrying pushes APNs rejected with 429 TooManyRequests
+const APNS_RATE_LIMIT_BACKOFF_MS = 2000;
+
+// State histories read at once for the projections (one store round trip each)
+const HISTORY_READ_CONCURRENCY = 20;
+
+/**
+ * Milestone alerts crossed between the stored session state and the state about to be pushed
+ * Only device-reported states fire milestones - an estimate must not announce a charge level,
+ * and the app's next report fires the crossing once it really happened
+ */
+async function milestonesForPush(session: ActivitySession, stateToSend: LiveActivityUpdatePayload): Promise<MilestoneResult> {
+  if (stateToSend.isEstimate) {
+    return { alert: null, fired: [] };
+  }
+  // Nothing can be crossed if the state is unchanged - skip loading the player's config
+  if (stateToSend.soc === session.state.soc && stateToSend.isCharging === session.state.isCharging) {
+    return { alert: null, fired: [] };
+  }
+  const config = await getMilestoneConfig(session.playerId);
+  return detectMilestones(session.state, stateToSend, config, session.firedMilestones);
+}
+
+/**
+ * State to push for a session - while charging, projected forward from the app's last report
+ * (marked isEstimate) so the widget keeps moving while the app is suspended
+ */
+async function stateForPush(session: ActivitySession): Promise<LiveActivityUpdatePayload> {
+  if (!session.state.isCharging) {
+    return session.state;
+  }
+  const samples = await getStateHistory(session.activityId, PROJECTION_SAMPLES);
+  const state = projectState(session.state, session.lastUpdated, samples);
+  if (state.isEstimate) {
+    console.log(`[Cron] 📈 Projected ${session.activityId.substring(0, 8)}...: soc ${session.state.soc}% -> ${state.soc}%, timeToFull ${session.state.timeToFullMinutes}m -> ${state.timeToFullMinutes}m`);
+  }
+  return state;
+}
 
 export async function GET(request: NextRequest) {
   // Security: Verify this is actually a cron job (not a random user request)
@@ -32,11 +88,67 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  // One run at a time - an overlapping invocation would push every activity twice
+  let lease: Lease | null;
+  try {
+    lease = await acquireUpdateCronLease();
+  } catch (error) {
+    // No way to tell whether another run is active - fail rather than report a skip
+    console.error('[Cron] ❌ Could not take the lease - session store unavailable:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Could not take the cron lease',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 503 }
+    );
+  }
+  if (!lease) {
+    const current = await getUpdateCronLease().catch(() => null);
+    console.log(`[Cron] ⏭️ Another run holds the lease (${current?.holder || 'unknown'}, expires ${current ? new Date(current.expiresAt).toISOString() : 'unknown'}) - skipping this run`);
+    return NextResponse.json({
+      success: true,
+      skipped: true,
+      reason: 'lease-held',
+      lease: current && {
+        holder: current.holder,
+        fencingToken: current.fencingToken,
+        expiresAt: new Date(current.expiresAt).toISOString()
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+  // Set once this run overran its lease and a newer run took over - it stops pushing
+  let leaseLost = false;
+
   try {
-    console.log('[Cron] Starting direct Live Activity updates...');
+    console.log(`[Cron] Starting direct Live Activity updates... (lease ${lease.holder}, fencing token ${lease.fencingToken})`);
+
+    // End stale activities (no update for 15+ minutes) directly via APNs so they don't stay on screen
+    const apnsClient = getAPNsClient();
+    const staleActivities = await cleanupStaleActivities(STALE_THRESHOLD_MS);
+    if (staleActivities.length > 0) {
+      console.log(`[Cron] 🧹 Ended ${staleActivities.length} stale activities`);
+      if (apnsClient.isConfigured()) {
+        const dismissalDate = Math.floor(Date.now() / 1000);
+        for (const stale of staleActivities.filter(s => s.pushToken?.trim())) {
+          const endResult = await apnsClient.sendLiveActivityEnd(stale.pushToken, stale.state, {
+            dismissalDate,
+            environment: stale.apnsEnvironment
+          });
+          if (endResult.success) {
+            console.log(`[Cron] ✅ Ended stale activity ${stale.activityId.substring(0, 8)}... via direct APNs`);
+          } else {
+            console.warn(`[Cron] ⚠️ Failed to end stale activity ${stale.activityId.substring(0, 8)}... via APNs: ${endResult.error}`);
+          }
+        }
+      }
+    }
 
     // Get active activities from session store (stored when START/UPDATE endpoints are called)
-    const activeActivities = await getAllActiveActivities();
+    const activeActivities = await getAllActiveActivities(STALE_THRESHOLD_MS);
     
     console.log(`[SessionStore] Found ${activeActivities.length} active activities`);
     console.log(`[Cron] Found ${activeActivities.length} active activities to update`);
@@ -51,11 +163,124 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // No update for a while - stale until the app reports again (the next update makes it active)
+    for (const session of activeActivities) {
+      if (session.lifecycle.state !== 'stale' && Date.now() - session.lastUpdated > NO_UPDATES_THRESHOLD_MS) {
+        await transitionActivity(session.activityId, 'stale', 'no_updates');
+      }
+    }
+
+    // What each session's widget should show now - the stored state is only replaced by the app's next report
+    // Histories are read HISTORY_READ_CONCURRENCY at a time instead of one after another
+    const pushStates = new Map<string, LiveActivityUpdatePayload>();
+    let nextSession = 0;
+    await Promise.all(Array.from({ length: Math.min(HISTORY_READ_CONCURRENCY, activeActivities.length) }, async () => {
+      while (nextSession < activeActivities.length) {
+        const session = activeActivities[nextSession++];
+        pushStates.set(session.activityId, await stateForPush(session));
+      }
+    }));
+
     console.log(`[OneSignal update] App ID prefix: ${ONESIGNAL_APP_ID.substring(0, 8)}...`);
     console.log(`[OneSignal update] Has REST key: ${!!ONESIGNAL_REST_API_KEY}`);
 
-    const updateResults: Array<{ activityId: string; success: boolean; responseId?: string; method?: 'apns' | 'onesignal'; error?: any }> = [];
+    const updateResults: Array<{ activityId: string; success: boolean; responseId?: string; method?: 'apns' | 'broadcast' | 'onesignal'; error?: any }> = [];
     
+    // Send all direct APNs updates at once over the pooled HTTP/2 session (if configured)
+    // Sessions without a push token are left for the validation below
+    const apnsResults = new Map<string, APNsSendResult>();
+    const broadcastResults = new Map<string, APNsSendResult>(); // channelId -> broadcast result
+    if (!await checkUpdateCronLease(lease)) {
+      console.warn(`[Cron] 🚫 Lease lost before sending (fencing token ${lease.fencingToken}) - a newer run took over, stopping`);
+      return NextResponse.json({
+        success: true,
+        skipped: true,
+        reason: 'lease-lost',
+        fencingToken: lease.fencingToken,
+        timestamp: new Date().toISOString()
+      });
+    }
+    if (apnsClient.isConfigured()) {
+      const apnsSessions = activeActivities.filter(s => s.activityId?.trim() && s.pushToken?.trim() && !s.channelId);
+
+      // Broadcast channels: one push per channel with the newest state any subscriber reported
+      const channelSubscribers = new Map<string, ActivitySession[]>();
+      for (const s of activeActivities.filter(s => s.channelId)) {
+        channelSubscribers.set(s.channelId!, [...(channelSubscribers.get(s.channelId!) || []), s]);
+      }
+      for (const [channelId, subscribers] of channelSubscribers) {
+        const latest = subscribers.reduce((a, b) => (b.lastUpdated > a.lastUpdated ? b : a));
+        const channel = await getChannel(channelId);
+        if (!channel) {
+          broadcastResults.set(channelId, { success: false, error: 'Broadcast channel no longer exists' });
+          continue;
+        }
+        console.log(`[Cron] 📡 Broadcasting to channel ${channelId.substring(0, 8)}... (${subscribers.length} subscribed activities)`);
+        broadcastResults.set(channelId, await apnsClient.sendBroadcastUpdate(channelId, pushStates.get(latest.activityId)!, {
+          expectedNextUpdateMs: CRON_INTERVAL_MS,
+          environment: channel.apnsEnvironment,
+          ...(channel.storagePolicy === 0 && { expiration: 0 }) // Channels without storage only accept pushes that expire immediately
+        }));
+      }
+
+      // State to push for each session, with any milestone alert a reported state crosses against the stored state
+      // (recorded as fired once delivered - projected states never fire or record one)
+      const outgoing = new Map<string, { state: LiveActivityUpdatePayload; milestones: MilestoneResult }>();
+      for (const s of apnsSessions) {
+        const state = pushStates.get(s.activityId)!;
+        outgoing.set(s.activityId, { state, milestones: await milestonesForPush(s, state) });
+      }
+
+      const sendApnsUpdates = async (sessions: typeof activeActivities) => {
+        const results = await apnsClient.sendMany(sessions.map(s => {
+          const { state, milestones } = outgoing.get(s.activityId)!;
+          return {
+            pushToken: s.pushToken,
+            payload: {
+              soc: state.soc,
+              watts: state.watts,
+              timeToFullMinutes: state.timeToFullMinutes,
+              isCharging: state.isCharging,
+              ...(state.isEstimate && { isEstimate: true })
+            },
+            options: {
+              alert: milestones.alert || undefined,
+              expectedNextUpdateMs: CRON_INTERVAL_MS,
+              environment: s.apnsEnvironment
+            }
+          };
+        }));
+        sessions.forEach((s, i) => apnsResults.set(s.activityId, results[i]));
+      };
+
+      console.log(`[Cron] 🍎 Sending ${apnsSessions.length} direct APNs updates over pooled HTTP/2 session`);
+      await sendApnsUpdates(apnsSessions);
+
+      // 429: back off, then retry those pushes once
+      const throttled = apnsSessions.filter(s => apnsResults.get(s.activityId)?.failure?.kind === 'rate-limited');
+      if (throttled.length > 0) {
+        console.warn(`[Cron] ⏳ APNs throttled ${throttled.length} pushes - backing off ${APNS_RATE_LIMIT_BACKOFF_MS}ms before retrying`);
+        await new Promise(resolve => setTimeout(resolve, APNS_RATE_LIMIT_BACKOFF_MS));
+        await sendApnsUpdates(throttled);
+      }
+
+      // Remember which APNs host each token works on, so later pushes skip the fallback
+      for (const s of apnsSessions) {
+        const result = apnsResults.get(s.activityId);
+        if (result?.success && result.environment && result.environment !== s.apnsEnvironment) {
+          await setActivityApnsEnvironment(s.activityId, result.environment);
+        }
+      }
+
+      // Record delivered milestone alerts so each fires only once per session
+      for (const s of apnsSessions) {
+        const fired = outgoing.get(s.activityId)!.milestones.fired;
+        if (fired.length > 0 && apnsResults.get(s.activityId)?.success) {
+          await recordFiredMilestones(s.activityId, fired);
+        }
+      }
+    }
+
     // Update each active Live Activity directly via OneSignal
     for (const session of activeActivities) {
       const activityId = session.activityId;
@@ -63,6 +288,19 @@ export async function GET(request: NextRequest) {
       
       console.log(`[Cron] Processing activity ${activityId.substring(0, 8)}... pushToken: ${pushToken ? `${pushToken.substring(0, 8)}... (len: ${pushToken.length})` : 'MISSING'}`);
       
+      // Subscribed to a broadcast channel - the channel's broadcast above covers it
+      if (session.channelId) {
+        const broadcast = broadcastResults.get(session.channelId);
+        updateResults.push({
+          activityId: activityId,
+          success: !!broadcast?.success,
+          responseId: broadcast?.responseId,
+          method: 'broadcast',
+          ...(!broadcast?.success && { error: broadcast?.failure || broadcast?.error || 'Direct APNs not configured - cannot broadcast' })
+        });
+        continue;
+      }
+      
       // Validation
       if (!activityId || !activityId.trim() || !pushToken || !pushToken.trim()) {
         console.warn(`[Cron] ⚠️ Activity ${activityId?.substring(0, 8) || 'MISSING'}... missing activityId or push_token`);
@@ -76,8 +314,8 @@ export async function GET(request: NextRequest) {
         continue;
       }
 
-      // Get latest state from session store
-      const state = session.state;
+      // Latest state from session store (projected while charging)
+      const state = pushStates.get(activityId)!;
       const soc = state.soc;
       const watts = state.watts;
       const timeToFullMinutes = state.timeToFullMinutes;
@@ -85,19 +323,11 @@ export async function GET(request: NextRequest) {
       
       // DIAGNOSTIC: Log session store state
       const ageSeconds = Math.round((Date.now() - session.lastUpdated) / 1000);
-      console.log(`[Cron] 📊 Session store state for ${activityId.substring(0, 8)}...: soc=${soc}%, watts=${watts}W, timeToFull=${timeToFullMinutes}m, isCharging=${isCharging}, lastUpdated=${new Date(session.lastUpdated).toISOString()}, age=${ageSeconds}s`);
+      console.log(`[Cron] 📊 Session store state for ${activityId.substring(0, 8)}...: soc=${soc}%, watts=${watts}W, timeToFull=${timeToFullMinutes}m, isCharging=${isCharging}${state.isEstimate ? ' (estimate)' : ''}, lastUpdated=${new Date(session.lastUpdated).toISOString()}, age=${ageSeconds}s`);
 
-      // Try direct APNs update first (if configured)
-      const apnsClient = getAPNsClient();
-      if (apnsClient.isConfigured()) {
-        console.log(`[Cron] 🍎 Attempting direct APNs update for ${activityId.substring(0, 8)}...`);
-        const apnsResult = await apnsClient.sendLiveActivityUpdate(pushToken, {
-          soc,
-          watts,
-          timeToFullMinutes,
-          isCharging
-        });
-        
+      // Use the direct APNs result first (if configured)
+      const apnsResult = apnsResults.get(activityId);
+      if (apnsResult) {
         if (apnsResult.success) {
           console.log(`[Cron] ✅ Direct APNs update succeeded for ${activityId.substring(0, 8)}... - APNs ID: ${apnsResult.responseId}`);
           updateResults.push({
@@ -107,6 +337,24 @@ export async function GET(request: NextRequest) {
             method: 'apns'
           });
           continue; // Skip OneSignal update if APNs succeeded
+        } else if (isUnregistered(apnsResult.failure)) {
+          // Token is no longer valid - the activity has ended on the device, so stop updating it
+          console.warn(`[Cron] 🗑️ APNs reports push token Unregistered for ${activityId.substring(0, 8)}... - ending session`);
+          // Looked up first - ending the session drops it from the push token index
+          const others = (await getActivitiesForPushToken(session.pushToken)).filter(other => other.activityId !== activityId);
+          await transitionActivity(activityId, 'ended', 'apns_unregistered');
+          // Any other session registered with the same dead token is gone too
+          for (const other of others) {
+            console.warn(`[Cron] 🗑️ Ending session ${other.activityId.substring(0, 8)}... - shares the Unregistered push token`);
+            await transitionActivity(other.activityId, 'ended', 'apns_unregistered');
+          }
+          updateResults.push({
+            activityId: activityId,
+            success: false,
+            method: 'apns',
+            error: apnsResult.failure
+          });
+          continue; // OneSignal would deliver to the same dead token
         } else {
           console.warn(`[Cron] ⚠️ Direct APNs update failed for ${activityId.substring(0, 8)}...: ${apnsResult.error}`);
           console.log(`[Cron] 🔄 Falling back to OneSignal API for ${activityId.substring(0, 8)}...`);
@@ -114,38 +362,24 @@ export async function GET(request: NextRequest) {
         }
       }
 
+      // Everything below sends pushes - stop if a newer run took over the lease meanwhile
+      if (!await checkUpdateCronLease(lease)) {
+        console.warn(`[Cron] 🚫 Lease lost (fencing token ${lease.fencingToken}) - a newer run took over, leaving the remaining activities to it`);
+        leaseLost = true;
+        break;
+      }
+
       // If activity is stale (5+ minutes old), send silent push to wake app to check battery state
       // This allows the app to detect battery disconnect and send END event
-      if (ageSeconds > 5 * 60 && session.playerId) {
+      if (ageSeconds > NO_UPDATES_THRESHOLD_MS / 1000 && session.playerId) {
         console.log(`[Cron] ⚠️ Activity ${activityId.substring(0, 8)}... is stale (age: ${ageSeconds}s) - sending silent push to wake app for battery state check`);
         try {
-          const wakePayload = {
-            app_id: ONESIGNAL_APP_ID.trim(),
-            include_player_ids: [session.playerId],
-            content_available: true,
-            data: {
-              type: 'cron-stale-check',
-              timestamp: new Date().toISOString(),
-              activityId: activityId,
-              ageSeconds: ageSeconds
-            }
-          };
-          
-          const wakeResponse = await fetch('https://api.onesignal.com/notifications', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Basic ${ONESIGNAL_REST_API_KEY.trim()}`
-            },
-            body: JSON.stringify(wakePayload)
+          await wakePlayers([session.playerId], {
+            type: 'cron-stale-check',
+            timestamp: new Date().toISOString(),
+            activityId: activityId,
+            ageSeconds: ageSeconds
           });
-          
-          const wakeResult = await wakeResponse.json();
-          if (wakeResponse.ok && wakeResult.id) {
-            console.log(`[Cron] ✅ Silent push sent to wake app for stale check - ID: ${wakeResult.id}`);
-          } else {
-            console.warn(`[Cron] ⚠️ Failed to send stale check push: ${JSON.stringify(wakeResult)}`);
-          }
         } catch (wakeError) {
           console.error(`[Cron] ❌ Failed to send stale check push: ${wakeError}`);
           // Continue with UPDATE attempt - don't fail the cron job
@@ -162,16 +396,24 @@ export async function GET(request: NextRequest) {
           throw new Error(`Invalid push_token: ${pushToken}`);
         }
 
+        // Same content-state checks as direct APNs pushes - the widget must be able to decode it
+        const validation = validateContentState({
+          soc: soc,
+          watts: watts,
+          timeToFullMinutes: Math.max(0, timeToFullMinutes),
+          isCharging: isCharging,
+          ...(state.isEstimate && { isEstimate: true })
+        }, { allowEstimate: true });
+        if (!validation.ok) {
+          throw new Error(`Invalid content-state: ${validation.reason}`);
+        }
+
         const payload: any = {
           push_token: pushToken.trim(),  // ✅ CRITICAL: Include push token!
           event: 'update',
           name: 'petl-la-update',
-          event_updates: {
-            soc: soc,
-            watts: watts,
-            timeToFullMinutes: Math.max(0, timeToFullMinutes),
-            isCharging: isCharging
-          },
+          event_updates: validation.state,
+          stale_date: computeStaleDate(state, { expectedNextUpdateMs: CRON_INTERVAL_MS }),
           priority: 5
         };
         
@@ -209,6 +451,11 @@ export async function GET(request: NextRequest) {
           throw new Error('push_token is missing from payload - this should never happen');
         }
 
+        const sizeProblem = checkPayloadSize(payload);
+        if (sizeProblem) {
+          throw new Error(`Payload too large: ${sizeProblem}`);
+        }
+
         // Serialize payload to verify it includes push_token
         const serializedPayload = JSON.stringify(payload);
         const parsedPayload = JSON.parse(serializedPayload);
@@ -272,12 +519,13 @@ export async function GET(request: NextRequest) {
     const failed = updateResults.filter(r => !r.success).length;
     const apnsCount = updateResults.filter(r => r.method === 'apns' && r.success).length;
     const onesignalCount = updateResults.filter(r => r.method === 'onesignal' && r.success).length;
+    const broadcastCount = updateResults.filter(r => r.method === 'broadcast' && r.success).length;
 
     console.log(`[Cron] ✅ Completed: ${successful} succeeded, ${failed} failed out of ${activeActivities.length} total`);
-    console.log(`[Cron] 📊 Summary: ${apnsCount} via direct APNs, ${onesignalCount} via OneSignal API`);
+    console.log(`[Cron] 📊 Summary: ${apnsCount} via direct APNs, ${broadcastCount} via channel broadcasts, ${onesignalCount} via OneSignal API`);
     if (apnsCount > 0) {
       console.log(`[Cron] 🍎 Direct APNs updates enabled and working`);
-    } else if (getAPNsClient().isConfigured()) {
+    } else if (apnsClient.isConfigured()) {
       console.log(`[Cron] ⚠️ Direct APNs is configured but no updates were sent via APNs (all used OneSignal fallback)`);
     } else {
       console.log(`[Cron] 💡 Direct APNs not configured - set APNS_KEY_ID, APNS_TEAM_ID, and APNS_KEY environment variables to enable`);
@@ -287,7 +535,7 @@ export async function GET(request: NextRequest) {
     
     // Send silent push to wake iOS app so it can log what's happening
     // This allows us to see iOS logs in Vercel even when app is closed
-    if (successful > 0 && activeActivities.length > 0) {
+    if (successful > 0 && activeActivities.length > 0 && !leaseLost) {
       try {
         const playerIds = activeActivities
           .map(s => s.playerId)
@@ -296,36 +544,14 @@ export async function GET(request: NextRequest) {
         if (playerIds.length > 0) {
           console.log(`[Cron] 📱 Sending silent push to wake iOS app for logging (${playerIds.length} players)`);
           
-          const silentPushPayload = {
-            app_id: ONESIGNAL_APP_ID.trim(),  // Ensure no whitespace
-            include_player_ids: playerIds,
-            content_available: true,
-            // No title/body = silent notification (OneSignal automatically sets APNs push type to background)
-            data: {
-              type: 'cron-update-log',
-              timestamp: new Date().toISOString(),
-              updateCount: successful,
-              activityCount: activeActivities.length
-            }
-          };
-          
-          console.log(`[Cron] 📱 Silent push payload app_id: "${ONESIGNAL_APP_ID.trim()}" (length: ${ONESIGNAL_APP_ID.trim().length})`);
-          
-          const pushResponse = await fetch('https://api.onesignal.com/notifications', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Basic ${ONESIGNAL_REST_API_KEY.trim()}`  // Ensure no whitespace
-            },
-            body: JSON.stringify(silentPushPayload)
+          const wakeResult = await wakePlayers(playerIds, {
+            type: 'cron-update-log',
+            timestamp: new Date().toISOString(),
+            updateCount: successful,
+            activityCount: activeActivities.length
           });
-          
-          const pushResult = await pushResponse.json();
-          if (pushResponse.ok && pushResult.id) {
-            console.log(`[Cron] ✅ Silent push sent to wake iOS app - ID: ${pushResult.id}`);
+          if (wakeResult.apns + wakeResult.onesignal > 0) {
             console.log(`[Cron] 📱 iOS app should wake briefly and log UPDATE event status`);
-          } else {
-            console.warn(`[Cron] ⚠️ Silent push failed: ${JSON.stringify(pushResult)}`);
           }
         } else {
           console.log(`[Cron] ⚠️ No playerIds available - cannot send silent push to wake iOS app`);
@@ -342,6 +568,8 @@ export async function GET(request: NextRequest) {
       updated: successful,
       failed,
       total: activeActivities.length,
+      fencingToken: lease.fencingToken,
+      leaseLost,
       results: updateResults.slice(0, 10)
     });
 
@@ -354,5 +582,7 @@ export async function GET(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    await releaseUpdateCronLease(lease);
   }
 }
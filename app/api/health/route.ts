@@ -1,14 +1,44 @@
 // Health check endpoint for monitoring system status
 // Use this for Vercel Analytics, UptimeRobot, or internal dashboards
+// Reports 'degraded' once the APNs push certificate (certificate auth) has expired
+// Shows which update-cron run holds the cron lease, and until when
+
+import { getAPNsClient } from '@/lib/apns-client';
+import { getUpdateCronLease } from '@/lib/cron-lease';
 
 export async function GET(request: Request) {
   const startTime = Date.now();
   
   try {
+    const apnsClient = getAPNsClient();
+    const certificate = apnsClient.getCertificateStatus();
+    // A store outage shouldn't fail the health check itself
+    const cronLease = await getUpdateCronLease().catch(() => null);
+    
     const health = {
-      status: 'healthy',
+      status: certificate?.expired ? 'degraded' : 'healthy',
       timestamp: new Date().toISOString(),
       service: 'petl-live-activity-api',
+      apns: {
+        configured: apnsClient.isConfigured(),
+        authMode: apnsClient.getAuthMode(),
+        // Certificate auth only - expiry dates, no subject or key material
+        certificate: certificate && {
+          expiresAt: certificate.expiresAt,
+          daysRemaining: certificate.daysRemaining,
+          expired: certificate.expired,
+          expiringSoon: certificate.expiringSoon,
+        },
+      },
+      // Update-cron run currently holding the lease (null = no run in progress)
+      cron: {
+        lease: cronLease && {
+          holder: cronLease.holder,
+          fencingToken: cronLease.fencingToken,
+          acquiredAt: new Date(cronLease.acquiredAt).toISOString(),
+          expiresAt: new Date(cronLease.expiresAt).toISOString(),
+        },
+      },
       performance: {
         responseTimeMs: Date.now() - startTime,
       },
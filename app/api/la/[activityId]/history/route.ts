@@ -0,0 +1,51 @@
+// Next.js App Router API Route: Live Activity state history
+// Returns the states received for an activity (oldest first) with server and client timestamps,
+// next to the state currently stored - e.g. to see why a widget showed an old percentage
+// GET /api/la/{activityId}/history?limit=100
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getActivity, getStateHistory } from '@/lib/session-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ activityId: string }> }
+) {
+  // Security: Verify request has valid secret
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+
+  if (!expectedSecret || secret !== expectedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { activityId } = await params;
+
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam === null ? undefined : Number(limitParam);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: 'Invalid limit - expected a positive integer' }, { status: 400 });
+  }
+
+  const [samples, session] = await Promise.all([
+    getStateHistory(activityId, limit),
+    getActivity(activityId)
+  ]);
+
+  return NextResponse.json({
+    activityId,
+    count: samples.length,
+    samples,
+    // Last stored state and lifecycle - null once the session expired (its history is kept until the TTL)
+    current: session && {
+      state: session.state,
+      lastUpdated: new Date(session.lastUpdated).toISOString(),
+      version: session.version,
+      lifecycle: session.lifecycle
+    },
+    timestamp: new Date().toISOString()
+  }, {
+    headers: {
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+    },
+  });
+}
@@ -0,0 +1,127 @@
+// Next.js App Router API Route: Broadcast channels (iOS 18)
+// Manages APNs broadcast channels for shared chargers - every phone following a
+// charging station subscribes its Live Activity to the station's channel
+// (meta.channelId on /api/la/start) and receives one broadcast update per change
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAPNsClient, type APNsEnvironment } from '@/lib/apns-client';
+import { storeChannel, getChannel, getAllChannels, removeChannel } from '@/lib/session-store';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+  return !!expectedSecret && secret === expectedSecret;
+}
+
+/**
+ * POST /api/la/channels
+ * Body: { name: string, storagePolicy?: 0 | 1, apnsEnvironment?: 'development' | 'production' }
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { name, storagePolicy = 1, apnsEnvironment } = body;
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json({ error: 'Missing channel name' }, { status: 400 });
+    }
+    if (storagePolicy !== 0 && storagePolicy !== 1) {
+      return NextResponse.json({ error: 'Invalid storagePolicy - expected 0 (no storage) or 1 (store latest)' }, { status: 400 });
+    }
+    if (apnsEnvironment !== undefined && apnsEnvironment !== 'development' && apnsEnvironment !== 'production') {
+      return NextResponse.json({ error: "Invalid apnsEnvironment - expected 'development' or 'production'" }, { status: 400 });
+    }
+
+    const apnsClient = getAPNsClient();
+    if (!apnsClient.isConfigured()) {
+      return NextResponse.json({ error: 'Direct APNs not configured - broadcast channels unavailable' }, { status: 503 });
+    }
+
+    const result = await apnsClient.createChannel({ storagePolicy, environment: apnsEnvironment });
+    if (!result.success || !result.channelId) {
+      return NextResponse.json({ error: 'Failed to create channel', details: result.failure || result.error }, { status: 502 });
+    }
+
+    const channel = {
+      channelId: result.channelId,
+      name,
+      storagePolicy,
+      apnsEnvironment: result.environment as APNsEnvironment,
+      createdAt: Date.now()
+    };
+    await storeChannel(channel);
+
+    return NextResponse.json({ success: true, channel, timestamp: new Date().toISOString() });
+
+  } catch (error) {
+    console.error('[LA/CHANNELS] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create channel', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/la/channels
+ * Stored channels, each marked with whether APNs still lists it
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const channels = await getAllChannels();
+  const apnsClient = getAPNsClient();
+  if (!apnsClient.isConfigured()) {
+    return NextResponse.json({ channels, apnsChecked: false });
+  }
+
+  // Channels live in one APNs environment each - list every environment in use
+  const environments = [...new Set(channels.map(c => c.apnsEnvironment))];
+  const registered = new Set<string>();
+  for (const environment of environments) {
+    const result = await apnsClient.listChannels({ environment });
+    if (!result.success) {
+      return NextResponse.json({ channels, apnsChecked: false, error: result.failure || result.error });
+    }
+    result.channels?.forEach(id => registered.add(id));
+  }
+
+  return NextResponse.json({
+    channels: channels.map(c => ({ ...c, registered: registered.has(c.channelId) })),
+    apnsChecked: true
+  });
+}
+
+/**
+ * DELETE /api/la/channels?channelId=...
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const channelId = request.nextUrl.searchParams.get('channelId');
+  if (!channelId) {
+    return NextResponse.json({ error: 'Missing channelId' }, { status: 400 });
+  }
+
+  const channel = await getChannel(channelId);
+  if (!channel) {
+    return NextResponse.json({ error: 'Unknown channel' }, { status: 404 });
+  }
+
+  const result = await getAPNsClient().deleteChannel(channelId, { environment: channel.apnsEnvironment });
+  // Already gone on the APNs side - still drop our record
+  if (!result.success && result.failure?.kind !== 'invalid-token') {
+    return NextResponse.json({ error: 'Failed to delete channel', details: result.failure || result.error }, { status: 502 });
+  }
+
+  await removeChannel(channelId);
+  return NextResponse.json({ success: true, channelId, timestamp: new Date().toISOString() });
+}
@@ -0,0 +1,57 @@
+// Next.js App Router API Route: Register APNs device token
+// Receives the app's regular remote-notification device token (didRegisterForRemoteNotificationsWithDeviceToken)
+// so the server can wake the app with silent background pushes directly via APNs
+
+import { NextRequest, NextResponse } from 'next/server';
+import { storeDeviceToken } from '@/lib/session-store';
+
+export async function POST(request: NextRequest) {
+  // Security: Verify request has valid secret
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+
+  if (!expectedSecret || secret !== expectedSecret) {
+    console.error('[LA/DEVICE-TOKEN] ❌ Unauthorized - missing or invalid secret');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { deviceToken, meta } = body;
+    const playerId = meta?.playerId;
+
+    console.log(`[LA/DEVICE-TOKEN] 📥 Registering token - playerId: ${playerId?.substring(0, 8)}..., tokenLength: ${deviceToken?.length || 0}`);
+
+    if (!deviceToken || !playerId) {
+      return NextResponse.json({ error: 'Missing deviceToken or meta.playerId' }, { status: 400 });
+    }
+
+    // Optional: sandbox tokens (Xcode builds) vs production tokens (TestFlight/App Store)
+    const apnsEnvironment = meta?.apnsEnvironment;
+    if (apnsEnvironment !== undefined && apnsEnvironment !== 'development' && apnsEnvironment !== 'production') {
+      return NextResponse.json(
+        { error: "Invalid meta.apnsEnvironment - expected 'development' or 'production'" },
+        { status: 400 }
+      );
+    }
+
+    await storeDeviceToken(playerId, deviceToken, { apnsEnvironment });
+
+    return NextResponse.json({
+      success: true,
+      playerId,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[LA/DEVICE-TOKEN] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to register device token', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
+}
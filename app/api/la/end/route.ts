@@ -1,8 +1,118 @@
 // Next.js App Router API Route: End Live Activity
-// Receives Live Activity end request from iOS app and forwards to OneSignal
+// Receives Live Activity end request from iOS app, ends it directly via APNs
+// (using the stored push token) and forwards to OneSignal
+// Without activityId, ends every live activity stored for meta.playerId
+// Optional `reason`: 'user' (default) or 'unplugged' - recorded in the session's lifecycle
 
 import { NextRequest, NextResponse } from 'next/server';
-import { removeActivity } from '@/lib/session-store';
+import { getActivity, transitionActivity, getActivitiesForPlayer, type ActivitySession } from '@/lib/session-store';
+import type { TransitionReason } from '@/lib/session-lifecycle';
+import { getAPNsClient } from '@/lib/apns-client';
+
+type EndResult =
+  | { ok: true; method: 'apns' | 'onesignal' }
+  | { ok: false; status: number; error: string; details: unknown };
+
+// Why the app ended the activity
+const END_REASONS: Record<string, TransitionReason> = {
+  user: 'user_end',
+  unplugged: 'unplugged'
+};
+
+/**
+ * End one activity - directly via APNs when we have its push token, then via OneSignal
+ * The session is `ending` while the pushes are in flight and `ended` once one succeeded
+ * (a failed end stays `ending` until the app retries). Idempotent: a session that already
+ * ended (e.g. by the server after a stale timeout) still gets the end pushes, so the app can
+ * dismiss it - only its lifecycle is left as it is.
+ */
+async function endActivity(
+  activityId: string,
+  dismissalDate: number,
+  reason: TransitionReason,
+  contentState?: Partial<ActivitySession['state']>
+): Promise<EndResult> {
+  // Checked by the caller
+  const ONESIGNAL_APP_ID = process.env.ONESIGNAL_APP_ID!;
+  const ONESIGNAL_REST_API_KEY = process.env.ONESIGNAL_REST_API_KEY!;
+
+  const session = await getActivity(activityId);
+  let tracked = false; // Whether this END moves the session's lifecycle
+  if (session) {
+    const ending = await transitionActivity(activityId, 'ending', reason);
+    tracked = ending.ok;
+    if (!ending.ok && ending.reason === 'invalid_transition') {
+      console.log(`[LA/END] ℹ️ Activity ${activityId.substring(0, 8)}... is already ${ending.current?.lifecycle.state} - sending the end push anyway`);
+    }
+  }
+
+  // End directly via APNs first (if configured and we have the push token)
+  // OneSignal END shows "No Recipients" for locally-created activities, which left them on screen
+  const apnsClient = getAPNsClient();
+  let endedViaApns = false;
+  if (apnsClient.isConfigured() && session?.pushToken) {
+    const finalState = {
+      soc: contentState?.soc ?? session.state.soc,
+      watts: contentState?.watts ?? 0,
+      timeToFullMinutes: contentState?.timeToFullMinutes ?? 0,
+      isCharging: contentState?.isCharging ?? false
+    };
+    const apnsResult = await apnsClient.sendLiveActivityEnd(session.pushToken, finalState, {
+      dismissalDate,
+      environment: session.apnsEnvironment
+    });
+    endedViaApns = apnsResult.success;
+    if (apnsResult.success) {
+      console.log(`[LA/END] ✅ Ended activity ${activityId.substring(0, 8)}... via direct APNs - APNs ID: ${apnsResult.responseId}`);
+    } else {
+      console.warn(`[LA/END] ⚠️ Direct APNs end failed for ${activityId.substring(0, 8)}...: ${apnsResult.error}`);
+    }
+  } else if (!session?.pushToken) {
+    console.log(`[LA/END] ℹ️ No stored push token for ${activityId.substring(0, 8)}... - ending via OneSignal only`);
+  }
+
+  // Forward to OneSignal Live Activity API to end
+  // Format matches iOS app's OneSignalClient.swift implementation
+  const response = await fetch(
+    `https://api.onesignal.com/apps/${ONESIGNAL_APP_ID}/live_activities/${activityId}/notifications`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Key ${ONESIGNAL_REST_API_KEY}`
+      },
+      body: JSON.stringify({
+        event: 'end',
+        name: 'petl-la-end',  // ✅ Required by OneSignal
+        // OneSignal requires event_updates even for end; send a minimal valid ContentState
+        event_updates: {
+          soc: 0,
+          watts: 0.0,
+          timeToFullMinutes: 2,
+          isCharging: false
+        },
+        // Force immediate dismissal by setting a recent past timestamp
+        dismissal_date: dismissalDate
+      })
+    }
+  );
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error('[LA/END] OneSignal API error:', result);
+    // The activity is already gone if APNs accepted the end event
+    if (!endedViaApns) {
+      return { ok: false, status: response.status, error: 'OneSignal API error', details: result };
+    }
+  }
+
+  // Kept until its TTL, so updates arriving after the end are rejected
+  if (tracked) {
+    await transitionActivity(activityId, 'ended', reason);
+  }
+  return { ok: true, method: endedViaApns ? 'apns' : 'onesignal' };
+}
 
 export async function POST(request: NextRequest) {
   // Security: Verify request has valid secret
@@ -15,10 +125,20 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { activityId, immediate, meta } = body;
+    const { activityId, immediate, meta, contentState } = body;
 
-    if (!activityId) {
-      return NextResponse.json({ error: 'Missing activityId' }, { status: 400 });
+    // Own keys only - a plain lookup would accept inherited names like "constructor"
+    const requestedReason = body.reason ?? 'user';
+    const reason = typeof requestedReason === 'string' && Object.hasOwn(END_REASONS, requestedReason)
+      ? END_REASONS[requestedReason]
+      : null;
+    if (!reason) {
+      return NextResponse.json({ error: "Invalid reason - expected 'user' or 'unplugged'" }, { status: 400 });
+    }
+
+    // Without activityId, every activity of meta.playerId is ended
+    if (!activityId && !meta?.playerId) {
+      return NextResponse.json({ error: 'Missing activityId (or meta.playerId to end all of a player\'s activities)' }, { status: 400 });
     }
 
     // Get OneSignal credentials from environment
@@ -30,49 +150,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
     }
 
-    // Forward to OneSignal Live Activity API to end
-    // Format matches iOS app's OneSignalClient.swift implementation
     const dismissalDate = immediate 
       ? Math.floor(Date.now() / 1000) - 5  // Force immediate dismissal
       : Math.floor(Date.now() / 1000);     // Normal dismissal
-    
-    const response = await fetch(
-      `https://api.onesignal.com/apps/${ONESIGNAL_APP_ID}/live_activities/${activityId}/notifications`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Key ${ONESIGNAL_REST_API_KEY}`
-        },
-        body: JSON.stringify({
-          event: 'end',
-          name: 'petl-la-end',  // ✅ Required by OneSignal
-          // OneSignal requires event_updates even for end; send a minimal valid ContentState
-          event_updates: {
-            soc: 0,
-            watts: 0.0,
-            timeToFullMinutes: 2,
-            isCharging: false
-          },
-          // Force immediate dismissal by setting a recent past timestamp
-          dismissal_date: dismissalDate
-        })
-      }
-    );
 
-    const result = await response.json();
+    // End the requested activity, or every activity of the player
+    const activityIds = activityId
+      ? [activityId]
+      : (await getActivitiesForPlayer(meta.playerId)).map(session => session.activityId);
+    if (!activityId) {
+      console.log(`[LA/END] 📋 Ending ${activityIds.length} activities for player ${meta.playerId.substring(0, 8)}...`);
+    }
+
+    const results: Array<{ activityId: string } & EndResult> = [];
+    for (const id of activityIds) {
+      results.push({ activityId: id, ...await endActivity(id, dismissalDate, reason, contentState) });
+    }
 
-    if (!response.ok) {
-      console.error('[LA/END] OneSignal API error:', result);
+    const failed = results.find(result => !result.ok);
+    if (activityId && failed && !failed.ok) {
       return NextResponse.json(
-        { error: 'OneSignal API error', details: result },
-        { status: response.status }
+        { error: failed.error, details: failed.details },
+        { status: failed.status }
       );
     }
 
-    // Remove activity from session store
-    await removeActivity(activityId);
-
     // Remove activity_id tag from player (if we have playerId in meta)
     // Only attempt tag removal if player exists in OneSignal to avoid unnecessary 404 warnings
     const playerId = meta?.playerId;
@@ -159,9 +261,12 @@ export async function POST(request: NextRequest) {
       console.log(`[LA/END] ℹ️ No playerId provided in meta - skipping tag removal`);
     }
 
+    const ended = results.flatMap(result => result.ok ? [{ activityId: result.activityId, method: result.method }] : []);
     return NextResponse.json({
       success: true,
-      activityId,
+      ...(activityId
+        ? { activityId, method: ended[0].method }
+        : { playerId: meta.playerId, ended, failed: results.filter(result => !result.ok).map(result => result.activityId) }),
       timestamp: new Date().toISOString()
     });
 
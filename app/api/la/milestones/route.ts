@@ -0,0 +1,76 @@
+// Next.js App Router API Route: Milestone alert settings
+// Lets the iOS app configure per-player milestone alerts (e.g. alert at 80% and 100%)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMilestoneConfig, storeMilestoneConfig } from '@/lib/session-store';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+  return !!expectedSecret && secret === expectedSecret;
+}
+
+/**
+ * POST /api/la/milestones
+ * Body: { meta: { playerId }, socThresholds?: number[], notifyOnChargingStopped?: boolean, sound?: string }
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { meta, socThresholds, notifyOnChargingStopped, sound } = body;
+    const playerId = meta?.playerId;
+
+    if (!playerId) {
+      return NextResponse.json({ error: 'Missing playerId in meta' }, { status: 400 });
+    }
+
+    if (socThresholds !== undefined && !Array.isArray(socThresholds)) {
+      return NextResponse.json({ error: 'socThresholds must be an array of percentages' }, { status: 400 });
+    }
+
+    if (notifyOnChargingStopped !== undefined && typeof notifyOnChargingStopped !== 'boolean') {
+      return NextResponse.json({ error: 'notifyOnChargingStopped must be a boolean' }, { status: 400 });
+    }
+
+    if (sound !== undefined && typeof sound !== 'string') {
+      return NextResponse.json({ error: 'sound must be a string' }, { status: 400 });
+    }
+
+    const config = await storeMilestoneConfig(playerId, { socThresholds, notifyOnChargingStopped, sound });
+
+    return NextResponse.json({
+      success: true,
+      playerId,
+      config,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[LA/MILESTONES] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to store milestone settings', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/la/milestones?playerId=...
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const playerId = request.nextUrl.searchParams.get('playerId');
+  if (!playerId) {
+    return NextResponse.json({ error: 'Missing playerId' }, { status: 400 });
+  }
+
+  const config = await getMilestoneConfig(playerId);
+  return NextResponse.json({ playerId, config });
+}
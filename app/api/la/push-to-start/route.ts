@@ -0,0 +1,52 @@
+// Next.js App Router API Route: Register push-to-start token
+// Receives the ActivityKit push-to-start token from iOS app (Activity<...>.pushToStartTokenUpdates)
+// so the server can start the charging Live Activity itself
+
+import { NextRequest, NextResponse } from 'next/server';
+import { storePushToStartToken } from '@/lib/session-store';
+import { isPushToken } from '@/lib/content-state';
+
+export async function POST(request: NextRequest) {
+  // Security: Verify request has valid secret
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+
+  if (!expectedSecret || secret !== expectedSecret) {
+    console.error('[LA/PUSH-TO-START] ❌ Unauthorized - missing or invalid secret');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { pushToStartToken, meta } = body;
+    const playerId = meta?.playerId;
+
+    console.log(`[LA/PUSH-TO-START] 📥 Registering token - playerId: ${playerId?.substring(0, 8)}..., tokenLength: ${pushToStartToken?.length || 0}`);
+
+    if (!pushToStartToken || !playerId) {
+      return NextResponse.json({ error: 'Missing pushToStartToken or meta.playerId' }, { status: 400 });
+    }
+    if (!isPushToken(pushToStartToken)) {
+      return NextResponse.json({ error: 'Invalid pushToStartToken - expected a hex string' }, { status: 400 });
+    }
+
+    await storePushToStartToken(playerId, pushToStartToken);
+
+    return NextResponse.json({
+      success: true,
+      playerId,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[LA/PUSH-TO-START] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to register push-to-start token', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
+}
@@ -0,0 +1,112 @@
+// Next.js App Router API Route: Background battery report
+// Receives battery state from iOS app when it wakes in the background (e.g. silent push)
+// If the device is charging and has no Live Activity, starts one via APNs push-to-start
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getActivitiesForPlayer, getPushToStartToken, markPushToStartRequested, removePushToStartToken } from '@/lib/session-store';
+import { getAPNsClient } from '@/lib/apns-client';
+import { validateContentState } from '@/lib/content-state';
+
+// Don't send another push-to-start while the previous one may still be starting
+const START_COOLDOWN_MS = 5 * 60 * 1000;
+
+export async function POST(request: NextRequest) {
+  // Security: Verify request has valid secret
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+
+  if (!expectedSecret || secret !== expectedSecret) {
+    console.error('[LA/REPORT] ❌ Unauthorized - missing or invalid secret');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { contentState, meta } = body;
+    const playerId = meta?.playerId;
+
+    console.log(`[LA/REPORT] 📥 Background report - playerId: ${playerId?.substring(0, 8)}..., soc: ${contentState?.soc}, isCharging: ${contentState?.isCharging}`);
+
+    if (!playerId || !contentState) {
+      return NextResponse.json({ error: 'Missing contentState or meta.playerId' }, { status: 400 });
+    }
+
+    const validation = validateContentState(contentState);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid contentState', details: validation.reason }, { status: 400 });
+    }
+    const state = validation.state;
+
+    const respond = (started: boolean, reason: string) => NextResponse.json({
+      success: true,
+      started,
+      reason,
+      timestamp: new Date().toISOString()
+    });
+
+    if (!state.isCharging) {
+      return respond(false, 'not-charging');
+    }
+
+    // Already showing a Live Activity for this player - the update pipeline handles it
+    const playerActivities = await getActivitiesForPlayer(playerId);
+    if (playerActivities.length > 0) {
+      return respond(false, 'activity-already-active');
+    }
+
+    const registration = await getPushToStartToken(playerId);
+    if (!registration) {
+      console.log(`[LA/REPORT] ℹ️ No push-to-start token for player ${playerId.substring(0, 8)}... - app must start the activity locally`);
+      return respond(false, 'no-push-to-start-token');
+    }
+
+    if (registration.lastStartRequestedAt && Date.now() - registration.lastStartRequestedAt < START_COOLDOWN_MS) {
+      console.log(`[LA/REPORT] ⏳ Push-to-start already sent ${Math.round((Date.now() - registration.lastStartRequestedAt) / 1000)}s ago for player ${playerId.substring(0, 8)}... - waiting for START`);
+      return respond(false, 'start-pending');
+    }
+
+    const apnsClient = getAPNsClient();
+    if (!apnsClient.isConfigured()) {
+      return respond(false, 'apns-not-configured');
+    }
+
+    const result = await apnsClient.sendLiveActivityStart(registration.pushToStartToken, {
+      contentState: {
+        soc: state.soc,
+        watts: state.watts,
+        timeToFullMinutes: state.timeToFullMinutes,
+        isCharging: state.isCharging
+      },
+      alert: {
+        title: 'Charging started',
+        body: `Battery at ${state.soc}%`
+      }
+    });
+
+    if (!result.success) {
+      console.error(`[LA/REPORT] ❌ Push-to-start failed for player ${playerId.substring(0, 8)}...: ${result.error}`);
+      if (result.failure?.kind === 'invalid-token') {
+        await removePushToStartToken(playerId);
+      }
+      return NextResponse.json(
+        { error: 'Push-to-start failed', details: result.failure || result.error },
+        { status: 502 }
+      );
+    }
+
+    await markPushToStartRequested(playerId);
+    console.log(`[LA/REPORT] ✅ Started Live Activity via push-to-start for player ${playerId.substring(0, 8)}... - APNs ID: ${result.responseId}`);
+    return respond(true, 'push-to-start-sent');
+
+  } catch (error) {
+    console.error('[LA/REPORT] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process background report', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
+}
@@ -1,8 +1,39 @@
 // Next.js App Router API Route: Start Live Activity
 // Receives Live Activity start request from iOS app and forwards to OneSignal
+// The session is stored as pending first and becomes active once OneSignal accepts it (failed if it doesn't)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { storeActivity } from '@/lib/session-store';
+import {
+  storeActivity,
+  getChannel,
+  appendStateHistory,
+  transitionActivity,
+  type ActivityWriteResult,
+  type StateSample
+} from '@/lib/session-store';
+import { computeStaleDate } from '@/lib/push-policy';
+import { validateContentState, parseClientTimestamp, isPushToken } from '@/lib/content-state';
+
+// The session changed while this START replaced it (e.g. a concurrent UPDATE) - the app retries the start
+function conflictResponse(activityId: string) {
+  console.warn(`[LA/START] ⚠️ Session for activity ${activityId.substring(0, 8)}... changed concurrently - rejecting start`);
+  return NextResponse.json(
+    { error: 'CONFLICT', details: 'Activity session was modified concurrently - retry the start' },
+    { status: 409 }
+  );
+}
+
+// Response for a failed storeActivity - the activity already ended (or is ending) and can't be started again
+function storeFailedResponse(activityId: string, stored: Extract<ActivityWriteResult, { ok: false }>) {
+  if (stored.reason === 'invalid_transition') {
+    console.warn(`[LA/START] ⚠️ Activity ${activityId.substring(0, 8)}... is ${stored.current?.lifecycle.state} - rejecting start`);
+    return NextResponse.json(
+      { error: 'ILLEGAL_TRANSITION', details: `Activity is ${stored.current?.lifecycle.state} and can't be started again`, state: stored.current?.lifecycle.state },
+      { status: 409 }
+    );
+  }
+  return conflictResponse(activityId);
+}
 
 export async function POST(request: NextRequest) {
   const timestamp = new Date().toISOString();
@@ -21,14 +52,33 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { activityId, laPushToken, contentState, meta } = body;
 
+    // Optional for channel-only activities, but always a token when present (it is logged and stored as one)
+    if (laPushToken != null && laPushToken !== '' && !isPushToken(laPushToken)) {
+      return NextResponse.json({ error: 'Invalid laPushToken - expected the APNs push token as a hex string' }, { status: 400 });
+    }
+
     console.log(`[LA/START] ✅ Valid request - activityId: ${activityId?.substring(0, 8)}..., tokenLength: ${laPushToken?.length || 0}, soc: ${contentState?.soc}, playerId: ${meta?.playerId?.substring(0, 8)}...`);
     console.log(`[LA/START] Push token format check - hex length: ${laPushToken?.length}, starts with: ${laPushToken?.substring(0, 8)}`);
     console.log(`[LA/START] Activity ID format: ${activityId}`);
 
-    if (!activityId || !laPushToken || !contentState) {
+    // laPushToken may be omitted for activities subscribed to a broadcast channel only (pushType: .channel)
+    if (!activityId || (!laPushToken && !meta?.channelId) || !contentState) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    const validation = validateContentState(contentState);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid contentState', details: validation.reason }, { status: 400 });
+    }
+    const state = validation.state;
+    // Kept in the session's history once the session is stored (debugging, charging analytics)
+    const sample: StateSample = {
+      ...state,
+      receivedAt: Date.now(),
+      clientTimestamp: parseClientTimestamp(meta?.timestamp),
+      source: 'start'
+    };
+
     // Get OneSignal credentials from environment
     const ONESIGNAL_APP_ID = process.env.ONESIGNAL_APP_ID;
     const ONESIGNAL_REST_API_KEY = process.env.ONESIGNAL_REST_API_KEY;
@@ -48,6 +98,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Optional: APNs environment of the push token ('development' for Xcode builds, 'production' for TestFlight/App Store)
+    // If omitted, the environment is detected on the first direct APNs push
+    const apnsEnvironment = meta?.apnsEnvironment;
+    if (apnsEnvironment !== undefined && apnsEnvironment !== 'development' && apnsEnvironment !== 'production') {
+      return NextResponse.json(
+        { error: "Invalid meta.apnsEnvironment - expected 'development' or 'production'" },
+        { status: 400 }
+      );
+    }
+
+    // Optional: broadcast channel the activity is subscribed to (shared charger - see /api/la/channels)
+    const channelId = meta?.channelId;
+    if (channelId !== undefined) {
+      const channel = typeof channelId === 'string' ? await getChannel(channelId) : null;
+      if (!channel) {
+        return NextResponse.json({ error: 'Unknown meta.channelId - create it via /api/la/channels first' }, { status: 400 });
+      }
+    }
+
+    // Channel-only activity: no per-activity token, so there is nothing to forward to OneSignal -
+    // updates reach it through broadcasts on its channel
+    if (!laPushToken) {
+      // Nothing to confirm with OneSignal - active right away
+      const stored = await storeActivity(activityId, playerId, '', state, {
+        channelId,
+        lifecycle: { state: 'active', reason: 'start' }
+      });
+      if (!stored.ok && (stored.reason === 'conflict' || stored.reason === 'invalid_transition')) {
+        return storeFailedResponse(activityId, stored);
+      }
+      await appendStateHistory(activityId, sample);
+      console.log(`[LA/START] ✅ Registered channel-only activity ${activityId.substring(0, 8)}... on channel ${channelId.substring(0, 8)}...`);
+      return NextResponse.json({
+        success: true,
+        activityId,
+        channelId,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Store the session as pending until OneSignal accepts the activity
+    const stored = await storeActivity(
+      activityId,
+      playerId,
+      laPushToken,
+      {
+        soc: state.soc,
+        watts: state.watts,
+        timeToFullMinutes: state.timeToFullMinutes,
+        isCharging: state.isCharging
+      },
+      { apnsEnvironment, channelId }
+    );
+    if (!stored.ok && (stored.reason === 'conflict' || stored.reason === 'invalid_transition')) {
+      return storeFailedResponse(activityId, stored);
+    }
+    await appendStateHistory(activityId, sample);
+
     // Forward to OneSignal Live Activity API
     // Format matches iOS app's OneSignalClient.swift implementation
     console.log(`[LA/START] 📤 Forwarding to OneSignal for activity ${activityId.substring(0, 8)}...`);
@@ -84,11 +192,12 @@ export async function POST(request: NextRequest) {
       name: 'petl-la-update',
       // Event updates (dynamic data)
       event_updates: {
-        soc: contentState.soc,
-        watts: contentState.watts,
-        timeToFullMinutes: contentState.timeToFullMinutes,
-        isCharging: contentState.isCharging
+        soc: state.soc,
+        watts: state.watts,
+        timeToFullMinutes: state.timeToFullMinutes,
+        isCharging: state.isCharging
       },
+      stale_date: computeStaleDate(state),  // Widget shows "stale" look if no update arrives in time
       priority: 5
     };
     
@@ -123,6 +232,7 @@ export async function POST(request: NextRequest) {
       console.error('[LA/START] Response status:', response.status);
       console.error('[LA/START] Push token length:', laPushToken?.length || 0);
       console.error('[LA/START] Activity ID:', activityId);
+      await transitionActivity(activityId, 'failed', 'start_failed');
       return NextResponse.json(
         { error: 'OneSignal API error', details: result },
         { status: response.status }
@@ -132,18 +242,8 @@ export async function POST(request: NextRequest) {
     console.log(`[LA/START] ✅ OneSignal API success - activity registered`);
     console.log(`[LA/START] OneSignal response:`, JSON.stringify(result, null, 2));
 
-    // Store activity in session store for cron job to process
-    await storeActivity(
-      activityId,
-      playerId,
-      laPushToken,
-      {
-        soc: contentState.soc,
-        watts: contentState.watts,
-        timeToFullMinutes: contentState.timeToFullMinutes,
-        isCharging: contentState.isCharging
-      }
-    );
+    // Confirmed - the cron job now processes the session
+    await transitionActivity(activityId, 'active', 'start_confirmed');
 
     // Also store activity_id as a data tag on the player for OneSignal queries (optional)
     // This allows the cron job to find which devices have active Live Activities
@@ -153,7 +253,7 @@ export async function POST(request: NextRequest) {
         app_id: ONESIGNAL_APP_ID,  // OneSignal requires app_id in body
         tags: {
           la_activity_id: activityId,
-          la_push_token: laPushToken,
+          la_push_token: '',  // Push tokens stay in the (encrypted) session store - clear any tagged by earlier versions
           charging: 'true'
         }
       };
@@ -211,7 +311,7 @@ export async function POST(request: NextRequest) {
         if (contentType.includes('application/json')) {
           try {
             const tagResult = await tagResponse.json();
-            console.log(`[LA/START] ✅ Stored activity_id ${activityId.substring(0, 8)}... and push_token as tags for player ${playerId.substring(0, 8)}...`);
+            console.log(`[LA/START] ✅ Stored activity_id ${activityId.substring(0, 8)}... as tag for player ${playerId.substring(0, 8)}...`);
             console.log(`[LA/START] Tag update result:`, JSON.stringify(tagResult, null, 2));
           } catch (e) {
             console.warn(`[LA/START] ⚠️ Tag update succeeded but response was not valid JSON: ${e}`);
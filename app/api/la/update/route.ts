@@ -1,7 +1,65 @@
 import { callOneSignal, methodGuard } from '@/lib/onesignal';
-import { storeActivity, updateActivityState, getActivity } from '@/lib/session-store';
+import { storeActivity, updateActivityState, getActivity, getMilestoneConfig, getChannel, appendStateHistory, type ActivitySession, type ActivityWriteResult, type StateSample } from '@/lib/session-store';
+import { getAPNsClient } from '@/lib/apns-client';
+import { detectMilestones } from '@/lib/milestones';
+import { choosePriority } from '@/lib/push-policy';
+import { validateContentState, parseClientTimestamp, isPushToken } from '@/lib/content-state';
+import { isLive } from '@/lib/session-lifecycle';
 import { randomUUID } from 'crypto';
 
+// Session writes that lost a compare-and-set race are re-applied to the newer session this many times
+const MAX_STATE_WRITE_ATTEMPTS = 3;
+
+/**
+ * Save the new state (and fired milestones) against the session version this update read
+ * 
+ * If another writer got in first (a concurrent update, a late start, the cron), the
+ * state is re-applied on top of the newer session instead of overwriting its changes.
+ * Returns `conflict` only if that keeps failing. The push has been delivered by then, so the
+ * caller still answers 200 (with `stateSaved: false`) - a 409 would make the app retry and push twice.
+ */
+async function saveState(
+  requestId: string,
+  activityId: string,
+  state: ActivitySession['state'],
+  firedMilestones: string[],
+  readVersion: number
+): Promise<ActivityWriteResult> {
+  let expectedVersion = readVersion;
+  let result: ActivityWriteResult = { ok: false, reason: 'not_found', current: null };
+  for (let attempt = 1; attempt <= MAX_STATE_WRITE_ATTEMPTS; attempt++) {
+    result = await updateActivityState(activityId, state, { expectedVersion, firedMilestones });
+    if (result.ok || result.reason !== 'conflict' || !result.current) {
+      return result;
+    }
+    console.log(`[Update:${requestId}] 🔁 Session changed concurrently (version ${expectedVersion} -> ${result.current.version}) - re-applying state`);
+    expectedVersion = result.current.version;
+  }
+  return result;
+}
+
+/**
+ * Log a state that was pushed but could not be saved - the app's next update stores it
+ */
+function logUnsavedState(requestId: string, activityId: string) {
+  console.warn(`[Update:${requestId}] ⚠️ Pushed but could not save state for ${activityId.substring(0, 8)}... - session kept changing concurrently`);
+}
+
+/**
+ * 409 for an update to a session that is no longer live (ending, ended or failed)
+ */
+function illegalTransitionResponse(requestId: string, activityId: string, session: ActivitySession | null) {
+  const state = session?.lifecycle.state;
+  console.log(`[Update:${requestId}] ❌ Rejecting update for ${activityId.substring(0, 8)}... - activity is ${state}`);
+  return Response.json({
+    ok: false,
+    status: 409,
+    error: 'ILLEGAL_TRANSITION',
+    details: `Activity is ${state} and no longer accepts updates`,
+    state
+  }, { status: 409 });
+}
+
 /**
  * POST /api/la/update
  * 
@@ -14,6 +72,25 @@ import { randomUUID } from 'crypto';
  * 3. OneSignal delivers update to the Live Activity
  * 4. Session store is updated with latest state for cron-based updates
  * 
+ * Milestone alerts: if the new state crosses one of the player's milestones
+ * (e.g. 80%, 100%, charging stopped) compared to the stored state, an alert is
+ * attached to the update. Each milestone fires once per session.
+ * 
+ * Broadcast channels: if the activity is subscribed to a broadcast channel
+ * (shared charger), the state is broadcast once to every subscriber via APNs
+ * instead of being sent to this activity through OneSignal.
+ * 
+ * Priority: 10 only for significant transitions (charging started/stopped,
+ * milestone alert), 5 for routine changes - see push-policy.ts.
+ * 
+ * Concurrency: the state is saved with compare-and-set against the session version
+ * read at the start of the request and re-applied if another writer got in first. It is
+ * saved after the push, so if the session keeps changing the update still succeeds -
+ * with `stateSaved: false` - rather than ask the app to retry a push that was delivered.
+ * 
+ * Lifecycle: updates make a pending or stale session active; an update for a session
+ * that is ending, ended or failed is rejected with 409 ILLEGAL_TRANSITION.
+ * 
  * Security: Validates X-PETL-Secret header against PETL_SERVER_SECRET env var
  */
 export async function POST(request: Request) {
@@ -45,17 +122,47 @@ export async function POST(request: Request) {
   
   console.log(`[Update:${requestId}] activityId=${incoming.activityId}`);
   
-  // Prepare payload for OneSignal Live Activity update
-  const state = incoming.contentState || {
-    soc: 85,
-    watts: 7.5,
-    timeToFullMinutes: 18,
-    isCharging: true,
+  // Validate the content-state the widget will decode (no defaults - a guessed state would be shown as real)
+  const validation = validateContentState(incoming.contentState);
+  if (!validation.ok) {
+    console.log(`[Update:${requestId}] Invalid contentState: ${validation.reason}`);
+    return Response.json({
+      ok: false,
+      status: 400,
+      error: 'Invalid contentState',
+      details: validation.reason
+    }, { status: 400 });
+  }
+  const state = validation.state;
+  // Kept in the session's history once the session accepted it (debugging, charging analytics)
+  const sample: StateSample = {
+    ...state,
+    receivedAt: Date.now(),
+    clientTimestamp: parseClientTimestamp(incoming.meta?.timestamp),
+    source: 'update'
   };
   
+  // Optional push token fallback - used as a token below, so it must be one
+  if (incoming.laPushToken !== undefined && !isPushToken(incoming.laPushToken)) {
+    console.log(`[Update:${requestId}] Invalid laPushToken`);
+    return Response.json({
+      ok: false,
+      status: 400,
+      error: 'Invalid laPushToken',
+      details: 'Expected the APNs push token as a hex string'
+    }, { status: 400 });
+  }
+  
   // Get push_token from session store (required for OneSignal to deliver update)
   // Fallback: Check if iOS app sent push_token in request (for activities started before START fix)
   const existingActivity = await getActivity(incoming.activityId);
+  
+  // A late update (e.g. queued on the phone) must not revive an activity that already ended
+  if (existingActivity && !isLive(existingActivity.lifecycle.state)) {
+    return illegalTransitionResponse(requestId, incoming.activityId, existingActivity);
+  }
+  
+  let stateStored = false; // Whether a session write below took this state
   let pushToken = existingActivity?.pushToken;
   
   // Fallback: If not in session store, check if iOS app sent it in the request
@@ -65,8 +172,15 @@ export async function POST(request: Request) {
     // Store it in session store for future updates
     const playerId = incoming.meta?.playerId;
     if (playerId) {
-      await storeActivity(incoming.activityId, playerId, pushToken, state);
-      console.log(`[Update:${requestId}] ✅ Stored activity in session store from UPDATE request`);
+      // Create only - if a concurrent START stored the session meanwhile, keep that one
+      const created = await storeActivity(incoming.activityId, playerId, pushToken, state, {
+        expectedVersion: 0,
+        lifecycle: { state: 'active', reason: 'update' }
+      });
+      if (created.ok) {
+        stateStored = true;
+        console.log(`[Update:${requestId}] ✅ Stored activity in session store from UPDATE request`);
+      }
     }
   }
   
@@ -104,8 +218,65 @@ export async function POST(request: Request) {
     }
   }
   
+  // Compare with the previous session state to detect milestone crossings
+  const milestoneConfig = await getMilestoneConfig(playerId);
+  const milestones = detectMilestones(existingActivity?.state, state, milestoneConfig, existingActivity?.firedMilestones);
+  if (milestones.alert) {
+    console.log(`[Update:${requestId}] 🔔 Milestone crossed [${milestones.fired.join(', ')}] - attaching alert "${milestones.alert.title}"`);
+  }
+  
+  const priority = choosePriority('update', existingActivity?.state, state, { hasAlert: !!milestones.alert });
+  
+  // Broadcast channel: one push updates every phone following this charger
+  if (existingActivity?.channelId) {
+    const channel = await getChannel(existingActivity.channelId);
+    const apnsClient = getAPNsClient();
+    if (!channel || !apnsClient.isConfigured()) {
+      console.log(`[Update:${requestId}] ❌ Channel ${existingActivity.channelId.substring(0, 8)}... ${channel ? 'needs direct APNs' : 'no longer exists'}`);
+      return Response.json({
+        ok: false,
+        status: 503,
+        error: channel ? 'Direct APNs not configured - cannot broadcast' : 'Broadcast channel no longer exists',
+        details: null
+      }, { status: 503 });
+    }
+    
+    const broadcast = await apnsClient.sendBroadcastUpdate(channel.channelId, state, {
+      alert: milestones.alert || undefined,
+      priority,
+      environment: channel.apnsEnvironment,
+      ...(channel.storagePolicy === 0 && { expiration: 0 }) // Channels without storage only accept pushes that expire immediately
+    });
+    if (!broadcast.success) {
+      return Response.json({ ok: false, status: 502, error: 'Broadcast failed', details: broadcast.failure || broadcast.error }, { status: 502 });
+    }
+    
+    const saved = await saveState(requestId, incoming.activityId, state, milestones.fired, existingActivity.version);
+    if (!saved.ok && saved.reason === 'invalid_transition') {
+      return illegalTransitionResponse(requestId, incoming.activityId, saved.current);
+    }
+    const stateSaved = saved.ok || saved.reason !== 'conflict';
+    if (!stateSaved) {
+      logUnsavedState(requestId, incoming.activityId);
+    }
+    if (saved.ok) {
+      await appendStateHistory(incoming.activityId, sample);
+    }
+    console.log(`[Update:${requestId}] ✅ Broadcast to channel ${channel.channelId.substring(0, 8)}... - APNs ID: ${broadcast.responseId}`);
+    return Response.json({
+      ok: true,
+      status: 200,
+      method: 'broadcast',
+      channelId: channel.channelId,
+      data: { id: broadcast.responseId },
+      ...(!stateSaved && { stateSaved: false })
+    });
+  }
+  
   const payload = {
     activityId: incoming.activityId,
+    alert: milestones.alert || undefined, // Milestone alert (if a threshold was crossed)
+    priority,                           // 10 for significant transitions, 5 otherwise
     state: state,
     pushToken: pushToken || undefined,  // Include push_token if available
     playerId: playerId || undefined,    // Include playerId for targeting (only if exists)
@@ -116,13 +287,23 @@ export async function POST(request: Request) {
   const status = result.status ?? (result.ok ? 200 : 500);
   
   // Update activity state in session store for cron-based direct updates
+  let stateSaved = true;
   if (result.ok) {
     // Try to update existing activity state
-    const existing = await getActivity(incoming.activityId);
+    const existing = existingActivity ?? await getActivity(incoming.activityId);
     if (existing) {
-      // Activity exists - just update the state
-      await updateActivityState(incoming.activityId, state);
-      console.log(`[Update:${requestId}] ✅ Updated session store with latest state`);
+      // Activity exists - just update the state (and fired milestones) against the version read above
+      const saved = await saveState(requestId, incoming.activityId, state, milestones.fired, existing.version);
+      if (!saved.ok && saved.reason === 'invalid_transition') {
+        return illegalTransitionResponse(requestId, incoming.activityId, saved.current);
+      }
+      if (!saved.ok && saved.reason === 'conflict') {
+        stateSaved = false;
+        logUnsavedState(requestId, incoming.activityId);
+      } else if (saved.ok) {
+        stateStored = true;
+        console.log(`[Update:${requestId}] ✅ Updated session store with latest state`);
+      }
     } else {
       // Activity doesn't exist in store - try to retrieve pushToken from OneSignal player tags
       const playerId = incoming.meta?.playerId;
@@ -142,11 +323,16 @@ export async function POST(request: Request) {
           if (playerResponse.ok) {
             const playerData = await playerResponse.json();
             console.log(`[Update:${requestId}] Player API response - tags: ${JSON.stringify(playerData.tags || {})}`);
+            // Only players tagged before START stopped copying push tokens into OneSignal tags have one
             const pushToken = playerData.tags?.['la_push_token'] as string | undefined;
             
             if (pushToken) {
-              // Found pushToken - create session store entry
-              await storeActivity(incoming.activityId, playerId, pushToken, state);
+              // Found pushToken - create session store entry (unless a concurrent START just did)
+              const created = await storeActivity(incoming.activityId, playerId, pushToken, state, {
+                expectedVersion: 0,
+                lifecycle: { state: 'active', reason: 'update' }
+              });
+              stateStored = created.ok;
               console.log(`[Update:${requestId}] ✅ Retrieved pushToken from OneSignal and created session store entry for cron job`);
             } else {
               console.log(`[Update:${requestId}] ⚠️ Player found but no 'la_push_token' tag. Activity was likely started before START endpoint was fixed. To enable cron updates, end and restart the Live Activity.`);
@@ -173,9 +359,14 @@ export async function POST(request: Request) {
     }
   }
   
+  // Rejected or unstored states leave no history
+  if (stateStored) {
+    await appendStateHistory(incoming.activityId, sample);
+  }
+  
   console.log(`[Update:${requestId}] result=${result.ok ? 'ok' : 'error'}`);
   
-  return Response.json(result, { status });
+  return Response.json({ ...result, ...(!stateSaved && { stateSaved: false }) }, { status });
 }
 
 export async function GET() {
@@ -0,0 +1,37 @@
+// Next.js App Router API Route: Session schema migration
+// Rewrites every stored session in the current schema version (and, with encryption
+// configured, under the newest key), and re-encrypts push-to-start and device token
+// registrations under the newest key. Sessions are upgraded on read anyway - this
+// finishes the job at once, e.g. before dropping support for an old shape or key.
+// POST /api/sessions/migrate?dryRun=true only counts sessions per stored schema version
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrateSessions } from '@/lib/session-store';
+
+export async function POST(request: NextRequest) {
+  // Security: Verify request has valid secret
+  const secret = request.headers.get('x-petl-secret');
+  const expectedSecret = process.env.PETL_SERVER_SECRET;
+
+  if (!expectedSecret || secret !== expectedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+  console.log(`[Sessions/Migrate] 🔀 Starting ${dryRun ? 'dry run' : 'migration'}`);
+
+  try {
+    const report = await migrateSessions({ dryRun });
+    return NextResponse.json({
+      success: report.failed.length === 0 && report.registrations.failed === 0,
+      ...report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Sessions/Migrate] ❌ Migration failed:', error);
+    return NextResponse.json(
+      { error: 'Session migration failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * APNs Certificate-Based Authentication
+ *
+ * Alternative to provider tokens (.p8 + ES256 JWT) for environments that only
+ * have an APNs push certificate: the .p12 is presented as the TLS client
+ * certificate on the HTTP/2 connection and pushes carry no authorization header.
+ *
+ * Apple push certificates expire after a year - `status()` reports when, so the
+ * health endpoint can warn before pushes start failing with BadCertificate.
+ *
+ * Environment Variables:
+ * - APNS_CERT_P12: .p12 file content, base64-encoded
+ * - APNS_CERT_PASSPHRASE: passphrase for the .p12 (optional)
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import tls from 'tls';
+
+export interface APNsCertificateStatus {
+  subject: string;
+  expiresAt: string; // ISO 8601
+  daysRemaining: number;
+  expired: boolean;
+  expiringSoon: boolean; // Less than CERTIFICATE_EXPIRY_WARNING_DAYS left
+}
+
+// Warn this long before the certificate expires
+const CERTIFICATE_EXPIRY_WARNING_DAYS = 30;
+
+export class APNsCertificate {
+  readonly pfx: Buffer;
+  readonly passphrase?: string;
+  readonly subject: string;
+  readonly expiresAt: Date;
+
+  constructor(pfx: Buffer, passphrase?: string) {
+    this.pfx = pfx;
+    this.passphrase = passphrase;
+
+    // Load the .p12 into a TLS context (fails on a wrong passphrase) and read its certificate
+    const secureContext = tls.createSecureContext({ pfx, passphrase });
+    const socket = new tls.TLSSocket(new net.Socket(), { secureContext });
+    try {
+      const raw = (socket.getCertificate() as tls.PeerCertificate | null)?.raw;
+      if (!raw) {
+        throw new Error('No certificate found in .p12');
+      }
+      const certificate = new crypto.X509Certificate(raw);
+      this.subject = certificate.subject.replace(/\n/g, ', ');
+      this.expiresAt = new Date(certificate.validTo);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Load the certificate from APNS_CERT_P12 / APNS_CERT_PASSPHRASE
+   * Returns null when no certificate is configured or it can't be read
+   */
+  static fromEnv(): APNsCertificate | null {
+    const encoded = process.env.APNS_CERT_P12?.trim();
+    if (!encoded) {
+      return null;
+    }
+    try {
+      const certificate = new APNsCertificate(Buffer.from(encoded, 'base64'), process.env.APNS_CERT_PASSPHRASE || undefined);
+      console.log(`[APNs Certificate] 📜 Loaded certificate "${certificate.subject}" - expires ${certificate.expiresAt.toISOString()}`);
+      return certificate;
+    } catch (error) {
+      console.error('[APNs Certificate] ❌ Failed to load APNS_CERT_P12:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * TLS options that present this certificate as the client certificate
+   */
+  connectOptions(): Pick<tls.ConnectionOptions, 'pfx' | 'passphrase'> {
+    return { pfx: this.pfx, passphrase: this.passphrase };
+  }
+
+  /**
+   * Expiry status (for the health endpoint) - never includes certificate or key material
+   */
+  status(now: number = Date.now()): APNsCertificateStatus {
+    const daysRemaining = Math.floor((this.expiresAt.getTime() - now) / (24 * 60 * 60 * 1000));
+    return {
+      subject: this.subject,
+      expiresAt: this.expiresAt.toISOString(),
+      daysRemaining,
+      expired: this.expiresAt.getTime() <= now,
+      expiringSoon: daysRemaining < CERTIFICATE_EXPIRY_WARNING_DAYS
+    };
+  }
+}
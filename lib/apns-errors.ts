@@ -0,0 +1,156 @@
+/**
+ * Typed APNs Failure Reasons
+ *
+ * APNs rejects a push with an HTTP status and a JSON body like
+ * `{ "reason": "BadDeviceToken" }` (410 responses also carry a `timestamp`).
+ *
+ * This module turns that response into a discriminated union so callers can
+ * decide what to do without string matching:
+ * - invalid-token: the push token (or broadcast channel) is dead or wrong - drop the session (no retry)
+ * - provider-token: our JWT is bad - refresh it (retry only on ExpiredProviderToken)
+ * - rate-limited: too many requests for this token/provider - back off and retry
+ * - payload: the notification itself is malformed or too large (no retry)
+ * - configuration: topic/key/environment mismatch - fix config (no retry)
+ * - server: APNs is unavailable - retry later
+ * - network: the request never got a response - retry later
+ * - validation: rejected before sending (invalid content-state, over 4 KB) - fix the payload (no retry)
+ *
+ * Reference: https://developer.apple.com/documentation/usernotifications/handling-notification-responses-from-apns
+ */
+
+export type InvalidTokenReason =
+  | 'BadDeviceToken'
+  | 'DeviceTokenNotForTopic'
+  | 'ExpiredToken'
+  | 'Unregistered'
+  | 'BadChannelId'           // Broadcast channel doesn't exist (deleted or other environment)
+  | 'ChannelNotRegistered';
+
+export type ProviderTokenReason =
+  | 'ExpiredProviderToken'
+  | 'InvalidProviderToken'
+  | 'MissingProviderToken'
+  | 'UnrelatedKeyIdInToken'
+  | 'BadEnvironmentKeyInToken';
+
+export type RateLimitedReason =
+  | 'TooManyRequests'
+  | 'TooManyProviderTokenUpdates';
+
+export type PayloadReason =
+  | 'PayloadTooLarge'
+  | 'PayloadEmpty'
+  | 'BadCollapseId'
+  | 'BadExpirationDate'
+  | 'BadMessageId'
+  | 'BadPriority'
+  | 'DuplicateHeaders'
+  | 'InvalidPushType'
+  | 'MissingDeviceToken';
+
+export type ConfigurationReason =
+  | 'TopicDisallowed'
+  | 'BadTopic'
+  | 'MissingTopic'
+  | 'BadCertificate'
+  | 'BadCertificateEnvironment'
+  | 'Forbidden'
+  | 'BadPath'
+  | 'MethodNotAllowed';
+
+export type ServerReason =
+  | 'InternalServerError'
+  | 'ServiceUnavailable'
+  | 'Shutdown'
+  | 'IdleTimeout';
+
+export type APNsFailure =
+  | { kind: 'invalid-token'; reason: InvalidTokenReason; status: number; retryable: false; invalidSince?: number }
+  | { kind: 'provider-token'; reason: ProviderTokenReason; status: number; retryable: boolean }
+  | { kind: 'rate-limited'; reason: RateLimitedReason; status: number; retryable: true }
+  | { kind: 'payload'; reason: PayloadReason; status: number; retryable: false }
+  | { kind: 'configuration'; reason: ConfigurationReason; status: number; retryable: false }
+  | { kind: 'server'; reason: ServerReason; status: number; retryable: true }
+  | { kind: 'network'; reason: 'NetworkError'; message: string; retryable: true }
+  | { kind: 'validation'; reason: 'InvalidContentState' | 'PayloadTooLarge'; message: string; retryable: false }
+  | { kind: 'unknown'; reason: string; status: number; retryable: boolean };
+
+export type APNsFailureKind = APNsFailure['kind'];
+
+const INVALID_TOKEN_REASONS: readonly string[] = ['BadDeviceToken', 'DeviceTokenNotForTopic', 'ExpiredToken', 'Unregistered', 'BadChannelId', 'ChannelNotRegistered'];
+const PROVIDER_TOKEN_REASONS: readonly string[] = ['ExpiredProviderToken', 'InvalidProviderToken', 'MissingProviderToken', 'UnrelatedKeyIdInToken', 'BadEnvironmentKeyInToken'];
+const RATE_LIMITED_REASONS: readonly string[] = ['TooManyRequests', 'TooManyProviderTokenUpdates'];
+const PAYLOAD_REASONS: readonly string[] = ['PayloadTooLarge', 'PayloadEmpty', 'BadCollapseId', 'BadExpirationDate', 'BadMessageId', 'BadPriority', 'DuplicateHeaders', 'InvalidPushType', 'MissingDeviceToken'];
+const CONFIGURATION_REASONS: readonly string[] = ['TopicDisallowed', 'BadTopic', 'MissingTopic', 'BadCertificate', 'BadCertificateEnvironment', 'Forbidden', 'BadPath', 'MethodNotAllowed'];
+const SERVER_REASONS: readonly string[] = ['InternalServerError', 'ServiceUnavailable', 'Shutdown', 'IdleTimeout'];
+
+/**
+ * Parse an APNs error response (status + JSON body) into a typed failure
+ */
+export function parseAPNsFailure(status: number, body: string): APNsFailure {
+  let reason = '';
+  let timestamp: number | undefined;
+  try {
+    const parsed = body ? JSON.parse(body) : {};
+    reason = typeof parsed.reason === 'string' ? parsed.reason : '';
+    timestamp = typeof parsed.timestamp === 'number' ? parsed.timestamp : undefined;
+  } catch {
+    // Non-JSON body - classify by status below
+  }
+
+  // 410 means the token is no longer active for the topic, even if the reason is missing
+  if (INVALID_TOKEN_REASONS.includes(reason) || (status === 410 && !reason)) {
+    return {
+      kind: 'invalid-token',
+      reason: (reason || 'Unregistered') as InvalidTokenReason,
+      status,
+      retryable: false,
+      invalidSince: timestamp
+    };
+  }
+  if (PROVIDER_TOKEN_REASONS.includes(reason)) {
+    return {
+      kind: 'provider-token',
+      reason: reason as ProviderTokenReason,
+      status,
+      // An expired JWT is fixed by signing a new one - the others need a config change
+      retryable: reason === 'ExpiredProviderToken'
+    };
+  }
+  if (RATE_LIMITED_REASONS.includes(reason) || (status === 429 && !reason)) {
+    return { kind: 'rate-limited', reason: (reason || 'TooManyRequests') as RateLimitedReason, status, retryable: true };
+  }
+  if (PAYLOAD_REASONS.includes(reason) || (status === 413 && !reason)) {
+    return { kind: 'payload', reason: (reason || 'PayloadTooLarge') as PayloadReason, status, retryable: false };
+  }
+  if (CONFIGURATION_REASONS.includes(reason)) {
+    return { kind: 'configuration', reason: reason as ConfigurationReason, status, retryable: false };
+  }
+  if (SERVER_REASONS.includes(reason) || (status >= 500 && !reason)) {
+    return { kind: 'server', reason: (reason || 'InternalServerError') as ServerReason, status, retryable: true };
+  }
+
+  return { kind: 'unknown', reason: reason || `HTTP ${status}`, status, retryable: status >= 500 };
+}
+
+/**
+ * Failure for a push that never got an HTTP response (connection/stream error, timeout)
+ */
+export function networkFailure(message: string): APNsFailure {
+  return { kind: 'network', reason: 'NetworkError', message, retryable: true };
+}
+
+/**
+ * Failure for a push that was rejected locally and never sent (see content-state.ts)
+ */
+export function validationFailure(reason: 'InvalidContentState' | 'PayloadTooLarge', message: string): APNsFailure {
+  return { kind: 'validation', reason, message, retryable: false };
+}
+
+/**
+ * True when the push token should be dropped from the session store
+ * (Unregistered / 410 - the activity has ended on the device)
+ */
+export function isUnregistered(failure: APNsFailure | undefined): boolean {
+  return failure?.kind === 'invalid-token' && (failure.reason === 'Unregistered' || failure.status === 410);
+}
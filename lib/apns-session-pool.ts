@@ -0,0 +1,210 @@
+/**
+ * Persistent HTTP/2 Session Pool for APNs
+ *
+ * APNs expects providers to keep connections open and multiplex many pushes
+ * over them instead of opening a new TLS connection per notification.
+ *
+ * This pool keeps one long-lived HTTP/2 session per APNs origin:
+ * - Sessions are reused by every request to the same origin (multiplexed streams)
+ * - A GOAWAY or connection error drops the session so the next request reconnects
+ * - Idle sessions are closed after `idleTimeoutMs`
+ * - Busy sessions are kept alive with an HTTP/2 PING every `pingIntervalMs`
+ */
+
+import http2 from 'http2';
+
+export interface APNsSessionPoolOptions {
+  idleTimeoutMs?: number;   // Close a session after this long without requests (default: 5 minutes)
+  pingIntervalMs?: number;  // Keepalive PING interval (default: 60 seconds)
+  requestTimeoutMs?: number; // Per-stream timeout (default: 10 seconds)
+  connectOptions?: http2.SecureClientSessionOptions;
+}
+
+export interface APNsResponse {
+  status: number;
+  headers: http2.IncomingHttpHeaders;
+  body: string;
+}
+
+interface PooledSession {
+  session: http2.ClientHttp2Session;
+  lastUsed: number;
+  inFlight: number;
+  keepaliveTimer: NodeJS.Timeout;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_PING_INTERVAL_MS = 60 * 1000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export class APNsSessionPool {
+  private sessions = new Map<string, PooledSession>();
+  private idleTimeoutMs: number;
+  private pingIntervalMs: number;
+  private requestTimeoutMs: number;
+  private connectOptions: http2.SecureClientSessionOptions;
+
+  constructor(options: APNsSessionPoolOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.pingIntervalMs = options.pingIntervalMs ?? DEFAULT_PING_INTERVAL_MS;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.connectOptions = options.connectOptions ?? {};
+  }
+
+  /**
+   * Get the live session for an origin, connecting if there is none
+   */
+  private getSession(origin: string): PooledSession {
+    const existing = this.sessions.get(origin);
+    if (existing && !existing.session.closed && !existing.session.destroyed) {
+      existing.lastUsed = Date.now();
+      return existing;
+    }
+
+    console.log(`[APNs Pool] 🔌 Opening HTTP/2 session to ${origin}`);
+    const session = http2.connect(origin, this.connectOptions);
+
+    // Don't let an idle pooled session keep the process alive (ref'd again while streams are in flight)
+    session.unref();
+
+    const pooled: PooledSession = {
+      session,
+      lastUsed: Date.now(),
+      inFlight: 0,
+      keepaliveTimer: setInterval(() => this.keepalive(origin, pooled), this.pingIntervalMs)
+    };
+    pooled.keepaliveTimer.unref();
+
+    session.on('goaway', (errorCode) => {
+      // APNs sends GOAWAY before shutting a connection down - in-flight streams finish,
+      // new requests must go to a fresh session
+      console.warn(`[APNs Pool] ⚠️ GOAWAY from ${origin} (code: ${errorCode}) - will reconnect on next request`);
+      this.evict(origin, pooled);
+    });
+
+    session.on('error', (err) => {
+      console.error(`[APNs Pool] ❌ Session error for ${origin}:`, err.message);
+      this.evict(origin, pooled);
+    });
+
+    session.on('close', () => {
+      this.evict(origin, pooled);
+    });
+
+    this.sessions.set(origin, pooled);
+    return pooled;
+  }
+
+  /**
+   * Close idle sessions and PING busy ones so NAT/load balancers keep them open
+   */
+  private keepalive(origin: string, pooled: PooledSession): void {
+    if (Date.now() - pooled.lastUsed >= this.idleTimeoutMs) {
+      console.log(`[APNs Pool] 💤 Closing idle HTTP/2 session to ${origin}`);
+      this.evict(origin, pooled);
+      pooled.session.close();
+      return;
+    }
+
+    pooled.session.ping((err) => {
+      if (err) {
+        console.warn(`[APNs Pool] ⚠️ PING to ${origin} failed: ${err.message} - dropping session`);
+        this.evict(origin, pooled);
+        pooled.session.destroy();
+      }
+    });
+  }
+
+  /**
+   * Remove a session from the pool (only if it is still the current one for that origin)
+   */
+  private evict(origin: string, pooled: PooledSession): void {
+    clearInterval(pooled.keepaliveTimer);
+    if (this.sessions.get(origin) === pooled) {
+      this.sessions.delete(origin);
+    }
+  }
+
+  /**
+   * Send a single request as a new stream on the pooled session
+   *
+   * Rejects only on connection/stream failures - any HTTP status is resolved.
+   */
+  request(origin: string, headers: http2.OutgoingHttpHeaders, body: string): Promise<APNsResponse> {
+    return new Promise<APNsResponse>((resolve, reject) => {
+      let pooled: PooledSession;
+      try {
+        pooled = this.getSession(origin);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      if (pooled.inFlight++ === 0) {
+        pooled.session.ref();
+      }
+      const release = () => {
+        if (--pooled.inFlight === 0 && !pooled.session.destroyed) {
+          pooled.session.unref();
+        }
+      };
+
+      // Bodyless requests (e.g. GET/DELETE channel management) end the stream with the headers
+      const req = pooled.session.request({
+        ':method': 'POST',
+        ...headers,
+        ...(body && { 'content-length': Buffer.byteLength(body).toString() })
+      }, { endStream: !body });
+
+      req.setEncoding('utf8');
+      req.setTimeout(this.requestTimeoutMs, () => {
+        req.close(http2.constants.NGHTTP2_CANCEL);
+        reject(new Error(`Request timed out after ${this.requestTimeoutMs}ms`));
+      });
+
+      let status = 0;
+      let responseHeaders: http2.IncomingHttpHeaders = {};
+      let responseData = '';
+
+      req.on('response', (headers) => {
+        status = Number(headers[':status']);
+        responseHeaders = headers;
+      });
+
+      req.on('data', (chunk) => {
+        responseData += chunk;
+      });
+
+      req.on('close', release);
+
+      req.on('end', () => {
+        resolve({ status, headers: responseHeaders, body: responseData });
+      });
+
+      req.on('error', (err) => {
+        reject(err);
+      });
+
+      if (body) {
+        req.end(body);
+      }
+    });
+  }
+
+  /**
+   * Number of open sessions (for debugging)
+   */
+  size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every pooled session
+   */
+  closeAll(): void {
+    for (const [origin, pooled] of this.sessions) {
+      this.evict(origin, pooled);
+      pooled.session.close();
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Background Wake Pushes
+ *
+ * Wakes the PETL app on a set of players' devices with a silent push so it can
+ * re-read the battery state (stale check) or report its Live Activity status.
+ *
+ * Sent directly via APNs (push-type background) to the device token the app
+ * registered through /api/la/device-token - this works even when the OneSignal
+ * player record or its `charging` tag is missing. Players without a registered
+ * device token (older app versions), or all players when APNs isn't configured,
+ * fall back to a OneSignal silent push.
+ */
+
+import { getAPNsClient } from './apns-client';
+import { isUnregistered } from './apns-errors';
+import { getDeviceToken, removeDeviceToken, setDeviceApnsEnvironment } from './session-store';
+import { sendOneSignalSilentPush } from './onesignal';
+
+export interface WakeResult {
+  apns: number;      // Players woken via direct APNs
+  onesignal: number; // Players handed to the OneSignal fallback
+  failed: string[];  // Player IDs no push could be sent to
+}
+
+/**
+ * Send a silent wake push to each player's device
+ *
+ * @param playerIds - OneSignal player IDs (duplicates/empty values are ignored)
+ * @param data - Custom keys for the app (e.g. { type: 'cron-stale-check' })
+ */
+export async function wakePlayers(playerIds: string[], data: Record<string, unknown>): Promise<WakeResult> {
+  const players = [...new Set(playerIds.filter(id => id?.trim()))];
+  const result: WakeResult = { apns: 0, onesignal: 0, failed: [] };
+  if (players.length === 0) {
+    return result;
+  }
+
+  const apnsClient = getAPNsClient();
+  const withoutDevice: string[] = [];
+
+  if (apnsClient.isConfigured()) {
+    await Promise.all(players.map(async (playerId) => {
+      const device = await getDeviceToken(playerId);
+      if (!device) {
+        withoutDevice.push(playerId);
+        return;
+      }
+
+      const pushResult = await apnsClient.sendBackgroundPush(device.deviceToken, data, {
+        environment: device.apnsEnvironment
+      });
+      if (pushResult.success) {
+        result.apns++;
+        if (pushResult.environment && pushResult.environment !== device.apnsEnvironment) {
+          await setDeviceApnsEnvironment(playerId, pushResult.environment);
+        }
+        return;
+      }
+
+      if (isUnregistered(pushResult.failure)) {
+        // App was uninstalled or the token rotated - the app re-registers on next launch
+        console.warn(`[Wake] 🗑️ Device token for player ${playerId.substring(0, 8)}... is Unregistered - removing`);
+        await removeDeviceToken(playerId);
+        withoutDevice.push(playerId);
+        return;
+      }
+
+      console.warn(`[Wake] ⚠️ Background push to player ${playerId.substring(0, 8)}... failed: ${pushResult.error}`);
+      result.failed.push(playerId);
+    }));
+  } else {
+    withoutDevice.push(...players);
+  }
+
+  if (withoutDevice.length > 0) {
+    console.log(`[Wake] 🔄 ${withoutDevice.length} players have no usable device token - falling back to OneSignal`);
+    const fallback = await sendOneSignalSilentPush(withoutDevice, data);
+    if (fallback.ok) {
+      result.onesignal += withoutDevice.length;
+    } else {
+      result.failed.push(...withoutDevice);
+    }
+  }
+
+  console.log(`[Wake] 📱 Wake push (${data.type ?? 'untyped'}): ${result.apns} via APNs, ${result.onesignal} via OneSignal, ${result.failed.length} failed`);
+  return result;
+}
@@ -0,0 +1,113 @@
+/**
+ * Live Activity Content-State Validation
+ *
+ * Every outgoing Live Activity push - direct APNs or via OneSignal - carries a
+ * content-state that the widget decodes into PETLLiveActivityAttributes.ContentState.
+ * A missing or mistyped field makes that decode fail on the device and the update
+ * is silently dropped, so payloads are checked here before they are sent:
+ *
+ * - soc: number, 0-100
+ * - watts: finite number
+ * - timeToFullMinutes: finite number
+ * - isCharging: boolean
+ * - isEstimate: optional boolean, only in pushes of a server-side projection (soc-projection.ts) -
+ *   the widget decodes it as `Bool?`, and states reported by the app never carry it
+ * - no other fields
+ *
+ * and the whole push must fit the 4 KB APNs payload limit.
+ */
+
+import type { LiveActivityUpdatePayload } from './apns-client';
+
+// APNs payload limit for Live Activity (and all non-VoIP) pushes
+export const MAX_PAYLOAD_BYTES = 4096;
+
+// Longest APNs token accepted from the app (Live Activity tokens are 160 hex chars, device tokens 64)
+const MAX_PUSH_TOKEN_LENGTH = 512;
+
+const CONTENT_STATE_FIELDS = ['soc', 'watts', 'timeToFullMinutes', 'isCharging'];
+const ESTIMATE_FIELD = 'isEstimate';
+
+export type ContentStateValidation =
+  | { ok: true; state: LiveActivityUpdatePayload }
+  | { ok: false; reason: string };
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check a content-state against the widget's ContentState schema
+ * Returns a copy with exactly the schema fields, or the reason it was rejected
+ * `allowEstimate` accepts the isEstimate flag - set it for outgoing pushes only
+ */
+export function validateContentState(input: unknown, options: { allowEstimate?: boolean } = {}): ContentStateValidation {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, reason: 'contentState must be an object' };
+  }
+  const state = input as Record<string, unknown>;
+
+  const allowed = options.allowEstimate ? [...CONTENT_STATE_FIELDS, ESTIMATE_FIELD] : CONTENT_STATE_FIELDS;
+  const unexpected = Object.keys(state).filter(key => !allowed.includes(key));
+  if (unexpected.length > 0) {
+    return { ok: false, reason: `contentState has unexpected fields: ${unexpected.join(', ')}` };
+  }
+  if (!isFiniteNumber(state.soc) || state.soc < 0 || state.soc > 100) {
+    return { ok: false, reason: `contentState.soc must be a number between 0 and 100 (got ${JSON.stringify(state.soc)})` };
+  }
+  if (!isFiniteNumber(state.watts)) {
+    return { ok: false, reason: `contentState.watts must be a number (got ${JSON.stringify(state.watts)})` };
+  }
+  if (!isFiniteNumber(state.timeToFullMinutes)) {
+    return { ok: false, reason: `contentState.timeToFullMinutes must be a number (got ${JSON.stringify(state.timeToFullMinutes)})` };
+  }
+  if (typeof state.isCharging !== 'boolean') {
+    return { ok: false, reason: `contentState.isCharging must be a boolean (got ${JSON.stringify(state.isCharging)})` };
+  }
+  if (state.isEstimate !== undefined && typeof state.isEstimate !== 'boolean') {
+    return { ok: false, reason: `contentState.isEstimate must be a boolean (got ${JSON.stringify(state.isEstimate)})` };
+  }
+
+  return {
+    ok: true,
+    state: {
+      soc: state.soc,
+      watts: state.watts,
+      timeToFullMinutes: state.timeToFullMinutes,
+      isCharging: state.isCharging,
+      ...(state.isEstimate !== undefined && { isEstimate: state.isEstimate })
+    }
+  };
+}
+
+/**
+ * Check the serialized push against the APNs size limit
+ * Returns the reason it was rejected, or null if it fits
+ */
+export function checkPayloadSize(payload: unknown, limit: number = MAX_PAYLOAD_BYTES): string | null {
+  const size = Buffer.byteLength(JSON.stringify(payload));
+  return size > limit ? `payload is ${size} bytes - exceeds the ${limit} byte APNs limit` : null;
+}
+
+/**
+ * When the app captured a state, from the optional timestamp it sends with it
+ * Accepts an ISO 8601 string or a Unix timestamp in seconds (Swift's timeIntervalSince1970) or milliseconds
+ * Returns milliseconds, or null if missing or unreadable
+ */
+export function parseClientTimestamp(value: unknown): number | null {
+  if (isFiniteNumber(value) && value > 0) {
+    return Math.round(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Whether a request field is an APNs token as the app sends it (hex string, e.g. 160 chars for Live Activity tokens)
+ */
+export function isPushToken(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_PUSH_TOKEN_LENGTH && /^[0-9a-fA-F]+$/.test(value);
+}
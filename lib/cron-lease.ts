@@ -0,0 +1,47 @@
+/**
+ * Update-Cron Lease
+ *
+ * Vercel may start a new /api/cron/update-live-activities invocation while the previous
+ * one is still running, which would push every activity twice. Each run takes this lease
+ * first and exits if another run holds it.
+ *
+ * The lease expires on its own after UPDATE_CRON_LEASE_TTL_MS, so a run that crashed
+ * can't block the cron for longer than that. A run that outlives its lease has been
+ * fenced off: a newer run took a higher fencing token, and checkUpdateCronLease()
+ * tells the old run to stop before it sends more pushes.
+ */
+
+import { randomUUID } from 'crypto';
+import { acquireLease, checkLease, releaseLease, getLease, type Lease } from './session-store';
+
+const UPDATE_CRON_LEASE_NAME = 'cron:update-live-activities';
+
+// Longer than a normal run, short enough that a crashed run only skips one or two cron ticks
+export const UPDATE_CRON_LEASE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Take the lease for this run - null if another run holds it
+ * Throws if the session store fails, so the run can fail instead of reporting a skip
+ */
+export function acquireUpdateCronLease(): Promise<Lease | null> {
+  const holder = `${process.env.VERCEL_REGION || 'local'}:${randomUUID()}`;
+  return acquireLease(UPDATE_CRON_LEASE_NAME, holder, UPDATE_CRON_LEASE_TTL_MS);
+}
+
+/**
+ * Whether this run still holds the lease (false once it expired and another run took it)
+ */
+export function checkUpdateCronLease(lease: Lease): Promise<boolean> {
+  return checkLease(lease);
+}
+
+export function releaseUpdateCronLease(lease: Lease): Promise<void> {
+  return releaseLease(lease);
+}
+
+/**
+ * Current holder of the lease, for the health endpoint (null if no run is active)
+ */
+export function getUpdateCronLease(): Promise<Lease | null> {
+  return getLease(UPDATE_CRON_LEASE_NAME);
+}
@@ -0,0 +1,108 @@
+/**
+ * Milestone Alerts for Live Activity Updates
+ *
+ * Detects when a Live Activity update crosses a configured milestone
+ * (e.g. reaching 80%, reaching 100%, charging stopping) by comparing the
+ * previous session state with the state about to be sent.
+ *
+ * The matching alert (title, body, sound) is attached to that push so iOS
+ * lights up the screen / plays a sound. Each milestone fires at most once per
+ * session - fired milestone IDs are stored on the ActivitySession.
+ */
+
+import type { ActivitySession } from './session-store';
+
+export interface MilestoneConfig {
+  socThresholds: number[];       // Alert when soc rises to or past these percentages
+  notifyOnChargingStopped: boolean; // Alert when isCharging goes true -> false
+  sound: string;                 // Alert sound name ('default' = system sound)
+}
+
+export interface MilestoneAlert {
+  title: string;
+  body: string;
+  sound: string;
+}
+
+export interface MilestoneResult {
+  alert: MilestoneAlert | null; // Alert to attach to this push (highest priority milestone)
+  fired: string[];              // Milestone IDs crossed by this update (record them on the session)
+}
+
+type ChargeState = ActivitySession['state'];
+
+export const DEFAULT_MILESTONE_CONFIG: MilestoneConfig = {
+  socThresholds: [80, 100],
+  notifyOnChargingStopped: true,
+  sound: 'default'
+};
+
+/**
+ * Milestone ID for a soc threshold (stored in ActivitySession.firedMilestones)
+ */
+function socMilestoneId(threshold: number): string {
+  return `soc:${threshold}`;
+}
+
+const CHARGING_STOPPED_ID = 'charging-stopped';
+
+/**
+ * Normalize a (possibly partial) per-player config: sorted, de-duplicated thresholds in 1-100
+ */
+export function normalizeMilestoneConfig(config: Partial<MilestoneConfig> | null | undefined): MilestoneConfig {
+  const thresholds = Array.isArray(config?.socThresholds)
+    ? config.socThresholds.filter(t => typeof t === 'number' && t > 0 && t <= 100)
+    : DEFAULT_MILESTONE_CONFIG.socThresholds;
+
+  return {
+    socThresholds: [...new Set(thresholds.map(t => Math.round(t)))].sort((a, b) => a - b),
+    notifyOnChargingStopped: config?.notifyOnChargingStopped ?? DEFAULT_MILESTONE_CONFIG.notifyOnChargingStopped,
+    sound: config?.sound || DEFAULT_MILESTONE_CONFIG.sound
+  };
+}
+
+/**
+ * Compare previous and next state and return the alert for any newly crossed milestone
+ *
+ * If one update crosses several milestones (e.g. 75% -> 100%), all of them are
+ * marked fired but only the most significant one is alerted.
+ */
+export function detectMilestones(
+  previous: ChargeState | null | undefined,
+  next: ChargeState,
+  config: MilestoneConfig,
+  alreadyFired: string[] = []
+): MilestoneResult {
+  const fired: string[] = [];
+  let alert: MilestoneAlert | null = null;
+
+  // Without a previous state there is nothing to cross (first report for the session)
+  if (!previous) {
+    return { alert, fired };
+  }
+
+  // soc thresholds - ascending, so the last crossed one is the most significant
+  for (const threshold of config.socThresholds) {
+    const id = socMilestoneId(threshold);
+    if (alreadyFired.includes(id)) continue;
+    if (previous.soc < threshold && next.soc >= threshold) {
+      fired.push(id);
+      alert = threshold >= 100
+        ? { title: 'Fully charged', body: 'Your battery is at 100%.', sound: config.sound }
+        : { title: `Battery at ${threshold}%`, body: `Charged to ${next.soc}%${next.timeToFullMinutes > 0 ? ` - about ${next.timeToFullMinutes} min to full` : ''}.`, sound: config.sound };
+    }
+  }
+
+  // Charging stopped takes precedence - the user most likely unplugged
+  if (
+    config.notifyOnChargingStopped &&
+    !alreadyFired.includes(CHARGING_STOPPED_ID) &&
+    previous.isCharging &&
+    !next.isCharging
+  ) {
+    fired.push(CHARGING_STOPPED_ID);
+    alert = { title: 'Charging stopped', body: `Unplugged at ${next.soc}%.`, sound: config.sound };
+  }
+
+  return { alert, fired };
+}
@@ -0,0 +1,539 @@
+/**
+ * Mock APNs Server
+ *
+ * A local stand-in for api.push.apple.com so the APNs client, the cron route and
+ * the LA routes can run end-to-end without reaching Apple.
+ *
+ * - HTTP/2 over TLS with a self-signed certificate generated at startup
+ *   (trust it with the `ca` PEM - see `clientEnv()`)
+ * - Validates what APNs validates: ES256 provider token (kid/iss/age) or a TLS client
+ *   certificate issued by one of `clientCertificateCAs`, apns-topic,
+ *   apns-push-type, apns-priority, token format and the 4 KB payload limit -
+ *   plus the Live Activity payload shape (event, timestamp, content-state, ...)
+ * - Returns error statuses/reasons chosen by the test (`failNext`, `failToken`)
+ * - Records every push it receives (`pushes`)
+ * - Stands in for the broadcast channel management API (create/list/delete channels)
+ *   and accepts broadcast pushes (/4/broadcasts) to the channels it created
+ *
+ * Usage:
+ *   const mock = new MockAPNsServer({ teamId, bundleId, signingKeys: { [keyId]: p8Pem } });
+ *   await mock.start();
+ *   Object.assign(process.env, mock.clientEnv()); // APNS_BASE_URL + APNS_CA_CERT
+ *   resetAPNsClient();                            // next getAPNsClient() uses the mock
+ *   ...
+ *   mock.failToken(token, { status: 410, reason: 'Unregistered' });
+ *   await mock.stop();
+ */
+
+import crypto, { type KeyObject } from 'crypto';
+import http2 from 'http2';
+import type tls from 'tls';
+import { decodeProtectedHeader, jwtVerify } from 'jose';
+
+export interface MockAPNsFailure {
+  status: number;
+  reason: string;
+  timestamp?: number; // 410 only: when the token became invalid (ms)
+}
+
+export interface RecordedPush {
+  receivedAt: number;
+  method: string;
+  path: string;
+  deviceToken: string | null;
+  channelId: string | null; // Broadcast pushes and channel management requests
+  headers: Record<string, string>;
+  providerToken: { keyId: string; teamId: string } | null;
+  clientCertificate: string | null; // Subject of the TLS client certificate (certificate auth)
+  payload: any;
+  response: { status: number; reason?: string; apnsId?: string };
+}
+
+export interface MockAPNsServerOptions {
+  teamId: string;
+  bundleId: string;
+  signingKeys: Record<string, string | KeyObject>; // keyId -> .p8 (private) or public key
+  validateLiveActivityPayload?: boolean; // Reject malformed Live Activity payloads (default: true)
+  clientCertificateCAs?: string[]; // Accept TLS client certificates issued by these PEMs (or self-signed ones listed here)
+}
+
+// APNs limit for all push types except VoIP
+const MAX_PAYLOAD_BYTES = 4096;
+
+const PUSH_TYPES = ['alert', 'background', 'liveactivity', 'location', 'voip', 'complication', 'fileprovider', 'mdm', 'pushtotalk'];
+
+export class MockAPNsServer {
+  readonly pushes: RecordedPush[] = [];
+
+  private options: MockAPNsServerOptions;
+  private publicKeys = new Map<string, KeyObject>();
+  private server: http2.Http2SecureServer | null = null;
+  private certPem = '';
+  private port = 0;
+  private nextFailures: MockAPNsFailure[] = [];
+  private tokenFailures = new Map<string, { failure: MockAPNsFailure; remaining: number }>();
+  readonly channels = new Map<string, { storagePolicy: number }>(); // channelId -> message storage policy
+
+  constructor(options: MockAPNsServerOptions) {
+    this.options = options;
+    for (const [keyId, key] of Object.entries(options.signingKeys)) {
+      this.publicKeys.set(keyId, crypto.createPublicKey(key));
+    }
+  }
+
+  /**
+   * Start listening on 127.0.0.1 (random port unless given)
+   */
+  async start(port: number = 0): Promise<{ url: string; ca: string }> {
+    const { keyPem, certPem } = createSelfSignedCertificate('localhost');
+    this.certPem = certPem;
+    const clientCAs = this.options.clientCertificateCAs;
+    this.server = http2.createSecureServer({
+      key: keyPem,
+      cert: certPem,
+      allowHTTP1: false,
+      // Ask for a client certificate but let token-auth connections through - checked per request
+      ...(clientCAs?.length && { requestCert: true, rejectUnauthorized: false, ca: clientCAs })
+    });
+    this.server.on('stream', (stream, headers) => this.handleStream(stream, headers));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.port = (this.server.address() as { port: number }).port;
+
+    console.log(`[Mock APNs] 🧪 Listening on ${this.url}`);
+    return { url: this.url, ca: this.certPem };
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  get url(): string {
+    return `https://localhost:${this.port}`;
+  }
+
+  get ca(): string {
+    return this.certPem;
+  }
+
+  /**
+   * Environment variables that point the APNs client at this server
+   */
+  clientEnv(): Record<string, string> {
+    return {
+      APNS_BASE_URL: this.url,
+      APNS_CA_CERT: this.certPem
+    };
+  }
+
+  /**
+   * Answer the next push (any token) with this failure
+   */
+  failNext(failure: MockAPNsFailure): void {
+    this.nextFailures.push(failure);
+  }
+
+  /**
+   * Answer pushes to this device token (or broadcast channel ID) with this failure (`times` pushes, default: all)
+   */
+  failToken(deviceToken: string, failure: MockAPNsFailure, times: number = Infinity): void {
+    this.tokenFailures.set(deviceToken, { failure, remaining: times });
+  }
+
+  /**
+   * Forget recorded pushes and scripted failures
+   */
+  reset(): void {
+    this.pushes.length = 0;
+    this.nextFailures = [];
+    this.tokenFailures.clear();
+    this.channels.clear();
+  }
+
+  private handleStream(stream: http2.ServerHttp2Stream, headers: http2.IncomingHttpHeaders): void {
+    let body = '';
+    stream.setEncoding('utf8');
+    stream.on('data', chunk => { body += chunk; });
+    stream.on('end', async () => {
+      const record: RecordedPush = {
+        receivedAt: Date.now(),
+        method: String(headers[':method']),
+        path: String(headers[':path']),
+        deviceToken: null,
+        channelId: (headers['apns-channel-id'] as string | undefined) ?? null,
+        headers: Object.fromEntries(
+          Object.entries(headers).filter(([name]) => !name.startsWith(':')).map(([name, value]) => [name, String(value)])
+        ),
+        providerToken: null,
+        clientCertificate: null,
+        payload: null,
+        response: { status: 0 }
+      };
+
+      if (record.path.startsWith('/1/apps/')) {
+        await this.handleChannelManagement(stream, headers, body, record);
+        this.pushes.push(record);
+        return;
+      }
+
+      const failure = await this.validate(stream, headers, body, record);
+      if (failure) {
+        this.respondFailure(stream, record, failure);
+      } else {
+        const apnsId = String(headers['apns-id'] || crypto.randomUUID()).toUpperCase();
+        record.response = { status: 200, apnsId };
+        stream.respond({ ':status': 200, 'apns-id': apnsId });
+        stream.end();
+      }
+
+      this.pushes.push(record);
+    });
+  }
+
+  private respondFailure(stream: http2.ServerHttp2Stream, record: RecordedPush, failure: MockAPNsFailure): void {
+    const apnsId = crypto.randomUUID().toUpperCase();
+    record.response = { status: failure.status, reason: failure.reason, apnsId };
+    stream.respond({ ':status': failure.status, 'apns-id': apnsId, 'content-type': 'application/json' });
+    stream.end(JSON.stringify({
+      reason: failure.reason,
+      ...(failure.status === 410 && { timestamp: failure.timestamp ?? Date.now() })
+    }));
+  }
+
+  /**
+   * Channel management API: POST/GET/DELETE /1/apps/{bundleId}/channels, GET /1/apps/{bundleId}/all-channels
+   */
+  private async handleChannelManagement(
+    stream: http2.ServerHttp2Stream,
+    headers: http2.IncomingHttpHeaders,
+    body: string,
+    record: RecordedPush
+  ): Promise<void> {
+    const respond = (status: number, responseHeaders: Record<string, string> = {}, responseBody?: unknown) => {
+      record.response = { status };
+      stream.respond({ ':status': status, ...responseHeaders, ...(responseBody !== undefined && { 'content-type': 'application/json' }) });
+      stream.end(responseBody !== undefined ? JSON.stringify(responseBody) : undefined);
+    };
+
+    const authFailure = await this.authenticate(stream, headers['authorization'], record);
+    if (authFailure) {
+      this.respondFailure(stream, record, authFailure);
+      return;
+    }
+
+    const match = /^\/1\/apps\/([^/]+)\/(channels|all-channels)$/.exec(record.path);
+    if (!match) {
+      this.respondFailure(stream, record, { status: 404, reason: 'BadPath' });
+      return;
+    }
+    if (match[1] !== this.options.bundleId) {
+      this.respondFailure(stream, record, { status: 400, reason: 'BadTopic' });
+      return;
+    }
+
+    if (match[2] === 'all-channels') {
+      if (record.method !== 'GET') {
+        this.respondFailure(stream, record, { status: 405, reason: 'MethodNotAllowed' });
+        return;
+      }
+      respond(200, {}, { channels: [...this.channels.keys()] });
+      return;
+    }
+
+    if (record.method === 'POST') {
+      try {
+        record.payload = JSON.parse(body);
+      } catch {
+        this.respondFailure(stream, record, { status: 400, reason: 'BadPayload' });
+        return;
+      }
+      const storagePolicy = record.payload?.['message-storage-policy'];
+      if (record.payload?.['push-type'] !== 'LiveActivity' || (storagePolicy !== 0 && storagePolicy !== 1)) {
+        this.respondFailure(stream, record, { status: 400, reason: 'BadPayload' });
+        return;
+      }
+      const channelId = crypto.randomBytes(16).toString('base64');
+      this.channels.set(channelId, { storagePolicy });
+      record.channelId = channelId;
+      respond(201, { 'apns-channel-id': channelId });
+      return;
+    }
+
+    const channelId = record.channelId;
+    if (!channelId || !this.channels.has(channelId)) {
+      this.respondFailure(stream, record, { status: 400, reason: 'BadChannelId' });
+      return;
+    }
+    if (record.method === 'GET') {
+      respond(200, {}, { 'message-storage-policy': this.channels.get(channelId)!.storagePolicy, 'push-type': 'LiveActivity' });
+    } else if (record.method === 'DELETE') {
+      this.channels.delete(channelId);
+      respond(204);
+    } else {
+      this.respondFailure(stream, record, { status: 405, reason: 'MethodNotAllowed' });
+    }
+  }
+
+  /**
+   * Apply APNs' request checks, then the scripted failures - returns null to accept
+   */
+  private async validate(
+    stream: http2.ServerHttp2Stream,
+    headers: http2.IncomingHttpHeaders,
+    body: string,
+    record: RecordedPush
+  ): Promise<MockAPNsFailure | null> {
+    if (record.method !== 'POST') {
+      return { status: 405, reason: 'MethodNotAllowed' };
+    }
+
+    const broadcast = /^\/4\/broadcasts\/apps\/([^/?]+)$/.exec(record.path);
+    const match = /^\/3\/device\/([^/?]*)$/.exec(record.path);
+    if (broadcast) {
+      if (broadcast[1] !== this.options.bundleId) {
+        return { status: 400, reason: 'BadTopic' };
+      }
+      if (!record.channelId || !this.channels.has(record.channelId)) {
+        return { status: 400, reason: 'BadChannelId' };
+      }
+    } else if (!match) {
+      return { status: 404, reason: 'BadPath' };
+    } else {
+      record.deviceToken = match[1];
+      if (!record.deviceToken) {
+        return { status: 400, reason: 'MissingDeviceToken' };
+      }
+      if (!/^[0-9a-fA-F]+$/.test(record.deviceToken)) {
+        return { status: 400, reason: 'BadDeviceToken' };
+      }
+    }
+
+    const authFailure = await this.authenticate(stream, headers['authorization'], record);
+    if (authFailure) {
+      return authFailure;
+    }
+
+    const pushType = headers['apns-push-type'] as string | undefined;
+    if (!pushType || !PUSH_TYPES.includes(pushType)) {
+      return { status: 400, reason: 'InvalidPushType' };
+    }
+
+    // Broadcasts carry the bundle ID in the path instead of a topic, and only Live Activity pushes
+    if (broadcast) {
+      if (pushType !== 'liveactivity') {
+        return { status: 400, reason: 'InvalidPushType' };
+      }
+    } else {
+      const topic = headers['apns-topic'] as string | undefined;
+      if (!topic) {
+        return { status: 400, reason: 'MissingTopic' };
+      }
+      const expectedTopic = pushType === 'liveactivity'
+        ? `${this.options.bundleId}.push-type.liveactivity`
+        : this.options.bundleId;
+      if (topic !== expectedTopic) {
+        return { status: 400, reason: topic.startsWith(this.options.bundleId) ? 'TopicDisallowed' : 'BadTopic' };
+      }
+    }
+
+    const priority = headers['apns-priority'] as string | undefined;
+    if (priority !== undefined && !['1', '5', '10'].includes(priority)) {
+      return { status: 400, reason: 'BadPriority' };
+    }
+    if (pushType === 'background' && priority === '10') {
+      return { status: 400, reason: 'BadPriority' };
+    }
+
+    const expiration = headers['apns-expiration'] as string | undefined;
+    if (expiration !== undefined && !/^\d+$/.test(expiration)) {
+      return { status: 400, reason: 'BadExpirationDate' };
+    }
+    // Channels without message storage only accept pushes that expire immediately
+    if (broadcast && this.channels.get(record.channelId!)!.storagePolicy === 0 && expiration !== '0') {
+      return { status: 400, reason: 'BadExpirationDate' };
+    }
+
+    const collapseId = headers['apns-collapse-id'] as string | undefined;
+    if (collapseId !== undefined && Buffer.byteLength(collapseId) > 64) {
+      return { status: 400, reason: 'BadCollapseId' };
+    }
+
+    if (!body) {
+      return { status: 400, reason: 'PayloadEmpty' };
+    }
+    if (Buffer.byteLength(body) > MAX_PAYLOAD_BYTES) {
+      return { status: 413, reason: 'PayloadTooLarge' };
+    }
+    try {
+      record.payload = JSON.parse(body);
+    } catch {
+      return { status: 400, reason: 'BadPayload' };
+    }
+
+    if (pushType === 'liveactivity' && this.options.validateLiveActivityPayload !== false) {
+      const problem = validateLiveActivityPayload(record.payload);
+      if (problem) {
+        console.warn(`[Mock APNs] ⚠️ Invalid Live Activity payload: ${problem}`);
+        return { status: 400, reason: 'BadPayload' };
+      }
+    }
+
+    // Scripted failures (the push was otherwise valid)
+    const tokenFailure = this.tokenFailures.get(record.deviceToken ?? record.channelId!);
+    if (tokenFailure && tokenFailure.remaining > 0) {
+      tokenFailure.remaining--;
+      return tokenFailure.failure;
+    }
+    return this.nextFailures.shift() || null;
+  }
+
+  /**
+   * Provider token if the request has one, otherwise the connection's client certificate
+   */
+  private async authenticate(
+    stream: http2.ServerHttp2Stream,
+    authorization: string | undefined,
+    record: RecordedPush
+  ): Promise<MockAPNsFailure | null> {
+    if (!authorization && this.options.clientCertificateCAs?.length) {
+      const socket = stream.session?.socket as tls.TLSSocket | undefined;
+      const peer = socket?.getPeerCertificate();
+      if (socket?.authorized && peer?.subject) {
+        record.clientCertificate = Object.entries(peer.subject).map(([name, value]) => `${name}=${value}`).join(', ');
+        return null;
+      }
+      if (peer?.subject) {
+        return { status: 403, reason: 'BadCertificate' };
+      }
+    }
+    return this.verifyProviderToken(authorization, record);
+  }
+
+  private async verifyProviderToken(authorization: string | undefined, record: RecordedPush): Promise<MockAPNsFailure | null> {
+    if (!authorization?.startsWith('bearer ') && !authorization?.startsWith('Bearer ')) {
+      return { status: 403, reason: 'MissingProviderToken' };
+    }
+    const token = authorization.substring('bearer '.length);
+
+    let keyId: string | undefined;
+    try {
+      keyId = decodeProtectedHeader(token).kid;
+    } catch {
+      return { status: 403, reason: 'InvalidProviderToken' };
+    }
+    const publicKey = keyId ? this.publicKeys.get(keyId) : undefined;
+    if (!keyId || !publicKey) {
+      return { status: 403, reason: 'InvalidProviderToken' };
+    }
+
+    try {
+      const { payload } = await jwtVerify(token, publicKey, { algorithms: ['ES256'] });
+      record.providerToken = { keyId, teamId: String(payload.iss) };
+      if (payload.iss !== this.options.teamId) {
+        return { status: 403, reason: 'InvalidProviderToken' };
+      }
+      if (typeof payload.iat !== 'number' || Date.now() / 1000 - payload.iat > 3600) {
+        return { status: 403, reason: 'ExpiredProviderToken' };
+      }
+    } catch {
+      return { status: 403, reason: 'InvalidProviderToken' };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Check the ActivityKit payload shape - returns a description of the problem, or null
+ */
+function validateLiveActivityPayload(payload: any): string | null {
+  const aps = payload?.aps;
+  if (!aps || typeof aps !== 'object') return 'missing aps dictionary';
+  if (typeof aps.timestamp !== 'number') return 'aps.timestamp must be a number (unix seconds)';
+  if (!['start', 'update', 'end'].includes(aps.event)) return `aps.event must be start, update or end (got ${aps.event})`;
+  if (!aps['content-state'] || typeof aps['content-state'] !== 'object') return 'aps.content-state must be an object';
+  if (aps['stale-date'] !== undefined && typeof aps['stale-date'] !== 'number') return 'aps.stale-date must be a number';
+  if (aps['dismissal-date'] !== undefined && typeof aps['dismissal-date'] !== 'number') return 'aps.dismissal-date must be a number';
+  if (aps['relevance-score'] !== undefined && typeof aps['relevance-score'] !== 'number') return 'aps.relevance-score must be a number';
+  if (aps.event === 'start') {
+    if (typeof aps['attributes-type'] !== 'string') return 'start requires aps.attributes-type';
+    if (!aps.attributes || typeof aps.attributes !== 'object') return 'start requires aps.attributes';
+    if (!aps.alert) return 'start requires aps.alert';
+  }
+  return null;
+}
+
+/**
+ * Generate a P-256 .p8 key (PKCS#8 PEM) for signing test provider tokens
+ */
+export function generateTestSigningKey(): string {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+}
+
+// Minimal DER encoding - just enough to build a self-signed X.509 certificate
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), derLength(content.length), content]);
+}
+
+const derSequence = (...parts: Buffer[]) => der(0x30, Buffer.concat(parts));
+const derSet = (...parts: Buffer[]) => der(0x31, Buffer.concat(parts));
+const derOid = (hex: string) => der(0x06, Buffer.from(hex, 'hex'));
+const derUtf8 = (value: string) => der(0x0c, Buffer.from(value, 'utf8'));
+const derUtcTime = (date: Date) => der(0x17, Buffer.from(date.toISOString().replace(/[-:T]/g, '').substring(2, 14) + 'Z'));
+
+function derPositiveInteger(bytes: Buffer): Buffer {
+  return der(0x02, bytes[0] & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes);
+}
+
+const OID_ECDSA_WITH_SHA256 = '2a8648ce3d040302'; // 1.2.840.10045.4.3.2
+const OID_COMMON_NAME = '550403'; // 2.5.4.3
+const OID_SUBJECT_ALT_NAME = '551d11'; // 2.5.29.17
+
+/**
+ * Self-signed P-256 certificate for `hostname` (+ 127.0.0.1), valid for one day
+ */
+function createSelfSignedCertificate(hostname: string): { keyPem: string; certPem: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  const name = derSequence(derSet(derSequence(derOid(OID_COMMON_NAME), derUtf8(hostname))));
+  const signatureAlgorithm = derSequence(derOid(OID_ECDSA_WITH_SHA256));
+  const now = Date.now();
+  const subjectAltName = derSequence(
+    der(0x82, Buffer.from(hostname)),       // dNSName
+    der(0x87, Buffer.from([127, 0, 0, 1]))  // iPAddress
+  );
+
+  const tbsCertificate = derSequence(
+    der(0xa0, derPositiveInteger(Buffer.from([2]))), // version: v3
+    derPositiveInteger(crypto.randomBytes(8)),
+    signatureAlgorithm,
+    name,
+    derSequence(derUtcTime(new Date(now - 60 * 1000)), derUtcTime(new Date(now + 24 * 60 * 60 * 1000))),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    der(0xa3, derSequence(derSequence(derOid(OID_SUBJECT_ALT_NAME), der(0x04, subjectAltName))))
+  );
+
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey); // DER-encoded ECDSA signature
+  const certificate = derSequence(tbsCertificate, signatureAlgorithm, der(0x03, Buffer.concat([Buffer.from([0]), signature])));
+
+  const base64 = certificate.toString('base64').match(/.{1,64}/g)!.join('\n');
+  return {
+    keyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    certPem: `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`
+  };
+}
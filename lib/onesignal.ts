@@ -1,3 +1,6 @@
+import { computeStaleDate } from './push-policy';
+import { validateContentState, checkPayloadSize } from './content-state';
+
 const ERROR_BACKOFF_MS = 5 * 60 * 1000;
 const lastErrorAt = new Map<string, number>();
 
@@ -36,18 +39,43 @@ export async function callOneSignal(
         details: null,
       };
     }
+    // event_updates is the widget's content-state - reject it rather than send something the widget can't decode
+    const validation = validateContentState(body.state, { allowEstimate: true });
+    if (!validation.ok) {
+      console.error(`[OneSignal ${routeName}] ❌ Invalid content-state: ${validation.reason}`);
+      return {
+        ok: false,
+        status: 400,
+        error: 'INVALID_CONTENT_STATE',
+        details: validation.reason,
+      };
+    }
     url = `https://api.onesignal.com/apps/${appId}/live_activities/${activityId}/notifications`;
     payload = {
       event: 'update',
       name: 'petl-la-update',
-      event_updates: body.state || {
-        soc: 85,
-        watts: 7.5,
-        timeToFullMinutes: 18,
-        isCharging: true,
-      },
+      event_updates: validation.state,
     };
     
+    // Let the widget show a "stale" look if no newer update arrives in time
+    payload.stale_date = computeStaleDate(payload.event_updates);
+    
+    // 10 only for significant transitions (see push-policy.ts), otherwise 5
+    if (body.priority === 5 || body.priority === 10) {
+      payload.priority = body.priority;
+    }
+    
+    // Optional alert (e.g. milestone reached) - shown with the Live Activity update
+    const alert = body.alert as { title: string; body: string; sound?: string } | undefined;
+    if (alert) {
+      payload.headings = { en: alert.title };
+      payload.contents = { en: alert.body };
+      if (alert.sound) {
+        payload.ios_sound = alert.sound;
+      }
+      console.log(`[OneSignal ${routeName}] 🔔 Including alert: "${alert.title}"`);
+    }
+    
     // CRITICAL: Include push_token if provided - required for OneSignal to deliver update
     if (body.pushToken) {
       payload.push_token = body.pushToken;
@@ -80,17 +108,26 @@ export async function callOneSignal(
     
     // OneSignal requires event_updates with content state even for end
     // Use provided state or minimal valid state
-    const endState = body.state || {
+    const validation = validateContentState(body.state ?? {
       soc: 0,
       watts: 0,
       timeToFullMinutes: 0,
       isCharging: false,
-    };
+    });
+    if (!validation.ok) {
+      console.error(`[OneSignal ${routeName}] ❌ Invalid content-state: ${validation.reason}`);
+      return {
+        ok: false,
+        status: 400,
+        error: 'INVALID_CONTENT_STATE',
+        details: validation.reason,
+      };
+    }
     
     payload = {
       event: 'end',
       name: 'petl-la-end',
-      event_updates: endState,
+      event_updates: validation.state,
     };
     
     // Add dismissalDate if provided
@@ -99,6 +136,18 @@ export async function callOneSignal(
     }
   }
 
+  // OneSignal forwards the update to APNs - it must fit the 4 KB payload limit
+  const sizeProblem = checkPayloadSize(payload);
+  if (sizeProblem) {
+    console.error(`[OneSignal ${routeName}] ❌ ${sizeProblem}`);
+    return {
+      ok: false,
+      status: 413,
+      error: 'PAYLOAD_TOO_LARGE',
+      details: sizeProblem,
+    };
+  }
+
   // Log the outbound request (without secrets)
   console.log(`[OneSignal ${routeName}] URL: ${url}`);
   console.log(`[OneSignal ${routeName}] Payload keys: ${Object.keys(payload).join(', ')}`);
@@ -165,6 +214,48 @@ export async function callOneSignal(
   }
 }
 
+// Silent (content_available) push to players via OneSignal /notifications
+// Used only for players without an APNs device token (see background-push.ts)
+export async function sendOneSignalSilentPush(
+  playerIds: string[],
+  data: Record<string, unknown>
+): Promise<{ ok: boolean; id?: string; error?: string }> {
+  const appId = process.env.ONESIGNAL_APP_ID?.trim();
+  const restKey = process.env.ONESIGNAL_REST_API_KEY?.trim();
+
+  if (!appId || !restKey) {
+    return { ok: false, error: 'Missing OneSignal env vars (ONESIGNAL_APP_ID or ONESIGNAL_REST_API_KEY)' };
+  }
+
+  try {
+    const res = await fetch('https://api.onesignal.com/notifications', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Basic ${restKey}`,
+      },
+      body: JSON.stringify({
+        app_id: appId,
+        include_player_ids: playerIds,
+        // No title/body = silent notification (OneSignal automatically sets APNs push type to background)
+        content_available: true,
+        data,
+      }),
+    });
+
+    const result = await res.json().catch(() => ({}));
+    if (res.ok && result.id) {
+      console.log(`[OneSignal silent] ✅ Silent push sent to ${playerIds.length} players - ID: ${result.id}`);
+      return { ok: true, id: result.id };
+    }
+    console.warn(`[OneSignal silent] ⚠️ Silent push failed: ${JSON.stringify(result)}`);
+    return { ok: false, error: JSON.stringify(result.errors || result) };
+  } catch (error) {
+    console.error('[OneSignal silent] Network error:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 // Utility: uniform method guard
 export function methodGuard(reqMethod: string, allowed: string[] = ['POST']) {
   const isAllowed = allowed.includes(reqMethod.toUpperCase());
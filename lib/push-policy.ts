@@ -0,0 +1,135 @@
+/**
+ * Push Policy for Live Activity Updates
+ *
+ * Decides the per-push ActivityKit fields that depend on the charging state:
+ * - stale-date: when iOS should render the activity as stale (ActivityViewContext.isStale)
+ *   if no newer update arrived - so a frozen SOC isn't shown as if it were current
+ * - relevance-score: how PETL activities sort against each other on one device
+ *   (higher = more prominent in the Dynamic Island)
+ *
+ * and the APNs delivery headers:
+ * - apns-priority: 10 (immediate, counts against the Live Activity priority budget) only for
+ *   significant transitions - charging started, charging stopped, a milestone alert - 5 otherwise
+ * - apns-expiration: an update is worthless once the next one is due, so APNs drops it
+ *   instead of delivering an outdated state late (e.g. after the device was offline)
+ * - apns-collapse-id: newer pushes of the same kind to the same token replace queued ones
+ *
+ * Environment Variables:
+ * - LA_UPDATE_INTERVAL_SECONDS: how often a session expects a new update (default: 180, the cron schedule)
+ * - LA_PRIORITY_POLICY: 'adaptive' (default, as above) or 'always-high' (priority 10 for every Live Activity push)
+ */
+
+import crypto from 'crypto';
+import type { LiveActivityUpdatePayload, LiveActivityEvent } from './apns-client';
+
+export type PushPriority = 5 | 10;
+
+export type PriorityPolicy = 'adaptive' | 'always-high';
+
+export const PRIORITY_POLICY: PriorityPolicy = process.env.LA_PRIORITY_POLICY === 'always-high' ? 'always-high' : 'adaptive';
+
+export const DEFAULT_UPDATE_INTERVAL_MS = (Number(process.env.LA_UPDATE_INTERVAL_SECONDS) || 180) * 1000;
+
+// Missed updates tolerated before the activity is shown as stale
+const MISSED_UPDATES_BEFORE_STALE = 2;
+
+// Never mark an activity stale sooner than this (clock skew, delivery latency)
+const MIN_STALE_AFTER_MS = 60 * 1000;
+
+// An end push must arrive even if the device is offline for a while - iOS keeps ended activities up to 4 hours
+const END_EXPIRATION_MS = 4 * 60 * 60 * 1000;
+
+// A push-to-start is pointless once the charge session it announces may be over
+const START_EXPIRATION_MS = 15 * 60 * 1000;
+
+/**
+ * Stale date (unix seconds) for a push sent now
+ *
+ * The activity goes stale after the expected next update(s) didn't arrive, or -
+ * while charging - once the battery should already be full, whichever is sooner.
+ */
+export function computeStaleDate(
+  state: LiveActivityUpdatePayload,
+  options: { now?: number; expectedNextUpdateMs?: number } = {}
+): number {
+  const now = options.now ?? Date.now();
+  const interval = options.expectedNextUpdateMs ?? DEFAULT_UPDATE_INTERVAL_MS;
+
+  let staleAfterMs = interval * MISSED_UPDATES_BEFORE_STALE;
+  if (state.isCharging && state.timeToFullMinutes > 0) {
+    staleAfterMs = Math.min(staleAfterMs, state.timeToFullMinutes * 60 * 1000);
+  }
+  staleAfterMs = Math.max(staleAfterMs, MIN_STALE_AFTER_MS);
+
+  return Math.floor((now + staleAfterMs) / 1000);
+}
+
+/**
+ * Relevance score for a charging activity
+ *
+ * Actively charging activities rank above finished/unplugged ones; among charging
+ * activities, the one that will be full soonest ranks highest.
+ */
+export function computeRelevanceScore(state: LiveActivityUpdatePayload): number {
+  if (!state.isCharging) {
+    return 10;
+  }
+  // 100 when about to be full, down to 50 at 5+ hours remaining
+  const remaining = Math.max(0, state.timeToFullMinutes);
+  return Math.round(50 + Math.max(0, 50 - remaining / 6));
+}
+
+/**
+ * apns-priority for a Live Activity push
+ *
+ * 10 for significant transitions (first state, charging started/stopped, an alert
+ * such as a milestone) and for start/end events; 5 for routine updates like a 1% change.
+ */
+export function choosePriority(
+  event: LiveActivityEvent,
+  previous: LiveActivityUpdatePayload | null | undefined,
+  next: LiveActivityUpdatePayload,
+  options: { hasAlert?: boolean; policy?: PriorityPolicy } = {}
+): PushPriority {
+  if ((options.policy ?? PRIORITY_POLICY) === 'always-high') {
+    return 10;
+  }
+  if (event !== 'update' || options.hasAlert) {
+    return 10;
+  }
+  if (!previous || previous.isCharging !== next.isCharging) {
+    return 10;
+  }
+  return 5;
+}
+
+/**
+ * apns-expiration (unix seconds) for a push sent now
+ *
+ * Updates and wake pushes expire when the next one is due - delivering them later
+ * would show an outdated state. End and start events are kept longer.
+ */
+export function computeExpiration(
+  kind: LiveActivityEvent | 'background',
+  options: { now?: number; expectedNextUpdateMs?: number } = {}
+): number {
+  const now = options.now ?? Date.now();
+  const interval = options.expectedNextUpdateMs ?? DEFAULT_UPDATE_INTERVAL_MS;
+
+  const expiresAfterMs = kind === 'end' ? END_EXPIRATION_MS
+    : kind === 'start' ? START_EXPIRATION_MS
+    : interval;
+
+  return Math.floor((now + expiresAfterMs) / 1000);
+}
+
+/**
+ * apns-collapse-id for a push (max 64 bytes)
+ *
+ * One ID per push kind and token, so a newer update replaces a queued older one
+ * without collapsing pushes meant for other activities on the same device.
+ */
+export function collapseIdFor(kind: LiveActivityEvent | 'background', token: string): string {
+  const tokenHash = crypto.createHash('sha256').update(token).digest('hex').substring(0, 16);
+  return `petl-${kind}-${tokenHash}`;
+}
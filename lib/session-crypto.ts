@@ -0,0 +1,145 @@
+/**
+ * Session Field Encryption
+ *
+ * Envelope encryption for the sensitive fields of stored sessions (push token, player ID):
+ * each record gets a fresh random data key that encrypts its fields (AES-256-GCM, bound to
+ * the activity ID), and the data key itself is encrypted ("wrapped") with a key-encryption
+ * key from the environment. Only the wrapped data key and the ID of the key that wrapped it
+ * are stored next to the ciphertext.
+ *
+ * Key rotation:
+ * 1. Add the new key first in SESSION_ENCRYPTION_KEYS and keep the old one listed
+ * 2. Every write re-encrypts its record with the newest key; older records stay readable
+ * 3. Run POST /api/sessions/migrate - push-to-start and device token registrations never
+ *    expire and are only rewritten when the app registers again, so until then they keep
+ *    the old key in use (sessions are rewritten or expire within SESSION_TTL_SECONDS)
+ * 4. Remove the old key once the migration reports no failures
+ *
+ * Environment Variables:
+ * - SESSION_ENCRYPTION_KEYS: JSON array, newest first:
+ *   [{ "keyId": "2026-10", "key": "<32 random bytes, base64>" }]
+ * - SESSION_ENCRYPTION_KEY: single key (keyId "default", used after SESSION_ENCRYPTION_KEYS entries)
+ *
+ * Generate a key with: openssl rand -base64 32
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+export interface SessionEncryptionKey {
+  keyId: string;
+  key: Buffer; // 32 bytes (AES-256)
+}
+
+// Stored in place of the plaintext fields
+export interface EncryptedFields {
+  keyId: string; // Key that wrapped the data key
+  dataKey: string; // Wrapped data key - base64 of IV | auth tag | ciphertext
+  fields: string; // JSON of the encrypted fields, encrypted with the data key - same layout
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const DEFAULT_KEY_ID = 'default';
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function decrypt(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export class SessionFieldCipher {
+  private keys: SessionEncryptionKey[];
+
+  constructor(keys: SessionEncryptionKey[]) {
+    if (keys.length === 0) {
+      throw new Error('SessionFieldCipher needs at least one key');
+    }
+    this.keys = keys;
+  }
+
+  /**
+   * Build the cipher from SESSION_ENCRYPTION_KEYS and/or SESSION_ENCRYPTION_KEY
+   * Returns null when no key is configured (fields are stored in plaintext)
+   */
+  static fromEnv(): SessionFieldCipher | null {
+    const keys: SessionEncryptionKey[] = [];
+    const addKey = (keyId: string, value: unknown) => {
+      const key = typeof value === 'string' ? Buffer.from(value, 'base64') : null;
+      if (!key || key.length !== KEY_BYTES) {
+        console.warn(`[Session Crypto] ⚠️ Skipping key ${keyId} - expected ${KEY_BYTES} bytes, base64 encoded`);
+        return;
+      }
+      if (!keys.some(k => k.keyId === keyId)) {
+        keys.push({ keyId, key });
+      }
+    };
+
+    if (process.env.SESSION_ENCRYPTION_KEYS) {
+      try {
+        const parsed = JSON.parse(process.env.SESSION_ENCRYPTION_KEYS);
+        for (const entry of Array.isArray(parsed) ? parsed : []) {
+          if (!entry?.keyId || !entry?.key) {
+            console.warn(`[Session Crypto] ⚠️ Skipping SESSION_ENCRYPTION_KEYS entry ${entry?.keyId || '(no keyId)'} - keyId and key are required`);
+            continue;
+          }
+          addKey(String(entry.keyId), entry.key);
+        }
+      } catch (error) {
+        console.error('[Session Crypto] ❌ SESSION_ENCRYPTION_KEYS is not valid JSON:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (process.env.SESSION_ENCRYPTION_KEY) {
+      addKey(DEFAULT_KEY_ID, process.env.SESSION_ENCRYPTION_KEY);
+    }
+
+    return keys.length > 0 ? new SessionFieldCipher(keys) : null;
+  }
+
+  /**
+   * ID of the key new records are encrypted with
+   */
+  get activeKeyId(): string {
+    return this.keys[0].keyId;
+  }
+
+  /**
+   * Encrypt fields under a fresh data key, wrapped with the newest key
+   * `context` (e.g. the activity ID) must be passed to open() again - ciphertext moved to another record fails to decrypt
+   */
+  seal(fields: Record<string, string>, context: string): EncryptedFields {
+    const dataKey = randomBytes(KEY_BYTES);
+    const { keyId, key } = this.keys[0];
+    return {
+      keyId,
+      dataKey: encrypt(key, dataKey, `${keyId}:${context}`),
+      fields: encrypt(dataKey, Buffer.from(JSON.stringify(fields)), context)
+    };
+  }
+
+  /**
+   * Decrypt fields sealed with any configured key
+   * Throws if the key that wrapped them is no longer configured or the record was tampered with
+   */
+  open(encrypted: EncryptedFields, context: string): Record<string, string> {
+    const wrappingKey = this.keys.find(k => k.keyId === encrypted.keyId);
+    if (!wrappingKey) {
+      throw new Error(`Session fields are encrypted with key ${encrypted.keyId}, which is not configured`);
+    }
+    const dataKey = decrypt(wrappingKey.key, encrypted.dataKey, `${encrypted.keyId}:${context}`);
+    return JSON.parse(decrypt(dataKey, encrypted.fields, context).toString('utf8'));
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Session Lifecycle
+ *
+ * Every session moves through an explicit state machine instead of simply existing
+ * in the store or not:
+ *
+ *   pending ──► active ◄──► stale
+ *      │          │           │
+ *      └──────────┴─────┬─────┘
+ *                       ▼
+ *                    ending ──► ended
+ *
+ *   pending ──► failed ──► pending (START retried)
+ *
+ * - pending: START received, OneSignal hasn't confirmed it yet
+ * - active: receiving updates
+ * - stale: no update for a while (the cron wakes the app) - the next update makes it active again
+ * - ending: END requested, end push in flight (an END retry stays in ending)
+ * - ended: gone from the device - later updates are rejected
+ * - failed: START could not register the activity
+ *
+ * Any live session (pending, active, stale) can also end directly, without a push of its own
+ * (stale timeout, APNs Unregistered). Only live sessions are
+ * indexed, pushed by the cron and accept updates; ended and failed sessions stay readable
+ * until their TTL so late requests can be recognized and rejected.
+ */
+
+export type LifecycleState = 'pending' | 'active' | 'stale' | 'ending' | 'ended' | 'failed';
+
+export type TransitionReason =
+  | 'start' // START received
+  | 'start_confirmed' // OneSignal accepted the START
+  | 'start_failed' // OneSignal rejected the START
+  | 'update' // UPDATE received
+  | 'no_updates' // Cron: no update for a while
+  | 'user_end' // END from the app - the user ended the activity
+  | 'unplugged' // END from the app - the charger was unplugged
+  | 'stale_timeout' // Cron: no update for too long - ended by the server
+  | 'apns_unregistered' // APNs reports the push token Unregistered (ended on the device)
+  | 'replaced' // START again for a stored session - the new registration replaces it
+  | 'migrated'; // Assumed for sessions stored before lifecycles existed
+
+export interface LifecycleTransition {
+  from: LifecycleState | null; // null when the session was created
+  to: LifecycleState;
+  at: number; // timestamp in milliseconds
+  reason: TransitionReason;
+}
+
+export interface SessionLifecycle {
+  state: LifecycleState;
+  since: number; // timestamp in milliseconds of the last transition
+  transitions: LifecycleTransition[]; // Oldest first, the most recent MAX_TRANSITIONS
+}
+
+const LEGAL_TRANSITIONS: Record<LifecycleState, readonly LifecycleState[]> = {
+  pending: ['active', 'stale', 'ending', 'ended', 'failed'],
+  active: ['pending', 'stale', 'ending', 'ended', 'failed'],
+  stale: ['pending', 'active', 'ending', 'ended', 'failed'],
+  ending: ['ended', 'failed'],
+  ended: [],
+  failed: ['pending']
+};
+
+// Transitions kept per session - enough to debug one charging session, bounded for long-lived ones
+const MAX_TRANSITIONS = 20;
+
+/**
+ * Live sessions are indexed, pushed by the cron and accept updates
+ */
+export function isLive(state: LifecycleState): boolean {
+  return state === 'pending' || state === 'active' || state === 'stale';
+}
+
+/**
+ * Whether a session may move from one state to another (staying in the same state always may - nothing is recorded)
+ */
+export function isLegalTransition(from: LifecycleState, to: LifecycleState): boolean {
+  return from === to || LEGAL_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Lifecycle of a new session
+ */
+export function createLifecycle(state: LifecycleState, reason: TransitionReason, at: number = Date.now()): SessionLifecycle {
+  return { state, since: at, transitions: [{ from: null, to: state, at, reason }] };
+}
+
+/**
+ * Move a lifecycle to another state and record why
+ * Returns null if the transition is illegal, the same lifecycle if it's already in that state
+ */
+export function transition(
+  lifecycle: SessionLifecycle,
+  to: LifecycleState,
+  reason: TransitionReason,
+  at: number = Date.now()
+): SessionLifecycle | null {
+  if (!isLegalTransition(lifecycle.state, to)) {
+    return null;
+  }
+  if (lifecycle.state === to) {
+    return lifecycle;
+  }
+  return {
+    state: to,
+    since: at,
+    transitions: [...lifecycle.transitions, { from: lifecycle.state, to, at, reason }].slice(-MAX_TRANSITIONS)
+  };
+}
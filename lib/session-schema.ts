@@ -0,0 +1,66 @@
+/**
+ * ActivitySession Schema Versions
+ *
+ * Every stored session records the shape it was written with (`schemaVersion`). Older
+ * records are upgraded step by step when they are read, so fields can be added without
+ * breaking activities that are already running. The next write stores the upgraded shape;
+ * POST /api/sessions/migrate rewrites every stored session at once.
+ *
+ * 1. activityId, playerId, state, lastUpdated
+ * 2. + pushToken (activities started before it have none - empty until restarted)
+ * 3. + version (compare-and-set writes)
+ * 4. + lifecycle (state machine - earlier sessions were only stored while active)
+ *
+ * Records written before schemaVersion existed are identified by their fields.
+ *
+ * To change the schema: bump CURRENT_SESSION_SCHEMA_VERSION, add the upgrade from the
+ * previous version to UPGRADES and the field to ActivitySession.
+ */
+
+import type { ActivitySession } from './session-store';
+import { createLifecycle } from './session-lifecycle';
+
+export const CURRENT_SESSION_SCHEMA_VERSION = 4;
+
+// A stored session (decrypted) of any schema version
+export type SessionRecord = Record<string, unknown> & { activityId: string; schemaVersion?: number };
+
+// Upgrade from version N to N + 1, keyed by N
+const UPGRADES: Record<number, (record: SessionRecord) => SessionRecord> = {
+  1: record => ({ ...record, pushToken: '' }),
+  2: record => ({ ...record, version: 1 }),
+  3: record => ({ ...record, lifecycle: createLifecycle('active', 'migrated', Number(record.lastUpdated) || Date.now()) })
+};
+
+/**
+ * Schema version a stored record was written with
+ */
+export function detectSchemaVersion(record: SessionRecord): number {
+  if (typeof record.schemaVersion === 'number') return record.schemaVersion;
+  if (!('pushToken' in record)) return 1;
+  if (!('version' in record)) return 2;
+  if (!('lifecycle' in record)) return 3;
+  return 4;
+}
+
+/**
+ * Bring a stored record up to the current schema
+ * Records from a newer deployment (e.g. after a rollback) are returned unchanged - their
+ * extra fields survive read-modify-write cycles and their schemaVersion is kept
+ */
+export function upgradeSession(record: SessionRecord): { session: ActivitySession; fromVersion: number } {
+  const fromVersion = detectSchemaVersion(record);
+  if (fromVersion > CURRENT_SESSION_SCHEMA_VERSION) {
+    console.warn(`[Session Schema] ⚠️ Session ${record.activityId.substring(0, 8)}... has schema version ${fromVersion} - newer than this deployment (${CURRENT_SESSION_SCHEMA_VERSION})`);
+    return { session: record as unknown as ActivitySession, fromVersion };
+  }
+
+  let upgraded = record;
+  for (let version = fromVersion; version < CURRENT_SESSION_SCHEMA_VERSION; version++) {
+    upgraded = UPGRADES[version](upgraded);
+  }
+  return {
+    session: { ...upgraded, schemaVersion: CURRENT_SESSION_SCHEMA_VERSION } as unknown as ActivitySession,
+    fromVersion
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * File Session Store
+ *
+ * For self-hosting without Redis - the in-memory store persisted to a JSON file
+ * after every write (temp file + rename, so a crash never leaves half a file).
+ * The file is re-read when another process changed it; concurrent writers from
+ * several processes are not coordinated, so run a single server instance.
+ *
+ * Environment Variables:
+ * - SESSION_STORE_FILE: Path of the JSON file (default: .data/session-store.json)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MemorySessionStore } from './session-store-memory';
+import type { SetOptions } from './session-store-kv';
+import type { SessionStoreKind } from './session-store';
+
+const DEFAULT_FILE = '.data/session-store.json';
+
+interface SessionStoreFile {
+  values: Record<string, unknown>;
+  sets: Record<string, string[]>;
+  zsets?: Record<string, Record<string, number>>;
+  lists?: Record<string, unknown[]>;
+  expiresAt?: Record<string, number>;
+}
+
+export class FileSessionStore extends MemorySessionStore {
+  readonly kind: SessionStoreKind = 'file';
+  readonly filePath: string;
+  private loadedMtimeMs: number | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private pendingWrites = 0; // Snapshots queued or being written by persist()
+
+  constructor(filePath: string = process.env.SESSION_STORE_FILE || DEFAULT_FILE) {
+    super();
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Re-read the file if it changed since we last loaded or wrote it
+   * Skipped while our own writes are pending - memory is newer than the file then, and
+   * reloading between a rename and its mtime being recorded would drop the queued writes
+   */
+  private async load(): Promise<void> {
+    if (this.pendingWrites > 0) {
+      return;
+    }
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      return; // No file yet - starts empty
+    }
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const data = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as SessionStoreFile;
+    if (this.pendingWrites > 0) {
+      return; // A write started while the file was read
+    }
+    this.values = new Map(Object.entries(data.values || {}).map(([key, value]) => [key, JSON.stringify(value)]));
+    this.sets = new Map(Object.entries(data.sets || {}).map(([key, members]) => [key, new Set(members)]));
+    this.zsets = new Map(Object.entries(data.zsets || {}).map(([key, scores]) => [key, new Map(Object.entries(scores))]));
+    this.lists = new Map(Object.entries(data.lists || {}).map(([key, items]) => [key, items.map(item => JSON.stringify(item))]));
+    this.expiresAt = new Map(Object.entries(data.expiresAt || {}));
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private persist(): Promise<void> {
+    const data: SessionStoreFile = {
+      values: Object.fromEntries([...this.values].map(([key, value]) => [key, JSON.parse(value)])),
+      sets: Object.fromEntries([...this.sets].map(([key, members]) => [key, [...members]])),
+      zsets: Object.fromEntries([...this.zsets].map(([key, scores]) => [key, Object.fromEntries(scores)])),
+      lists: Object.fromEntries([...this.lists].map(([key, items]) => [key, items.map(item => JSON.parse(item))])),
+      expiresAt: Object.fromEntries(this.expiresAt)
+    };
+    // Serialize writes so an older snapshot never replaces a newer one
+    this.pendingWrites++;
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      try {
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(data));
+        await fs.rename(tmpPath, this.filePath);
+        this.loadedMtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+      } finally {
+        this.pendingWrites--;
+      }
+    });
+    return this.writeQueue;
+  }
+
+  protected async get<T>(key: string): Promise<T | null> {
+    await this.load();
+    return super.get<T>(key);
+  }
+
+  protected async set(key: string, value: unknown, options?: SetOptions): Promise<void> {
+    await this.load();
+    await super.set(key, value, options);
+    await this.persist();
+  }
+
+  protected async setIfVersion(key: string, expectedVersion: number, value: unknown, options?: SetOptions): Promise<boolean> {
+    await this.load();
+    const written = await super.setIfVersion(key, expectedVersion, value, options);
+    if (written) {
+      await this.persist();
+    }
+    return written;
+  }
+
+  protected async mget<T>(keys: string[]): Promise<(T | null)[]> {
+    await this.load();
+    return super.mget<T>(keys);
+  }
+
+  protected async delIfVersion(key: string, expectedVersion: number): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delIfVersion(key, expectedVersion);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  protected async incr(key: string): Promise<number> {
+    await this.load();
+    const value = await super.incr(key);
+    await this.persist();
+    return value;
+  }
+
+  protected async del(keys: string[]): Promise<void> {
+    await this.load();
+    await super.del(keys);
+    await this.persist();
+  }
+
+  protected async sadd(key: string, member: string): Promise<void> {
+    await this.load();
+    await super.sadd(key, member);
+    await this.persist();
+  }
+
+  protected async srem(key: string, member: string): Promise<void> {
+    await this.load();
+    await super.srem(key, member);
+    await this.persist();
+  }
+
+  protected async smembers(key: string): Promise<string[]> {
+    await this.load();
+    return super.smembers(key);
+  }
+
+  protected async zadd(key: string, entries: Array<{ score: number; member: string }>): Promise<void> {
+    await this.load();
+    await super.zadd(key, entries);
+    await this.persist();
+  }
+
+  protected async zrem(key: string, members: string[]): Promise<void> {
+    await this.load();
+    await super.zrem(key, members);
+    await this.persist();
+  }
+
+  protected async zrangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    await this.load();
+    return super.zrangeByScore(key, min, max);
+  }
+
+  protected async zcard(key: string): Promise<number> {
+    await this.load();
+    return super.zcard(key);
+  }
+
+  protected async rpush(key: string, values: unknown[]): Promise<void> {
+    await this.load();
+    await super.rpush(key, values);
+    await this.persist();
+  }
+
+  protected async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.load();
+    await super.ltrim(key, start, stop);
+    await this.persist();
+  }
+
+  protected async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    await this.load();
+    return super.lrange<T>(key, start, stop);
+  }
+
+  protected async expire(key: string, ttlMs: number): Promise<void> {
+    await this.load();
+    await super.expire(key, ttlMs);
+    await this.persist();
+  }
+
+  protected async pttl(keys: string[]): Promise<number[]> {
+    await this.load();
+    return super.pttl(keys);
+  }
+
+  protected async scan(prefix: string, cursor: string, count: number): Promise<{ cursor: string; keys: string[] }> {
+    await this.load();
+    return super.scan(prefix, cursor, count);
+  }
+}
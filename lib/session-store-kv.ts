@@ -0,0 +1,1134 @@
+/**
+ * Key-Value Session Store
+ *
+ * The SessionStore logic (activities, milestones, push-to-start and device tokens,
+ * broadcast channels) written once against a handful of Redis-style primitives.
+ * Each backend (Upstash, memory, file) only implements the primitives.
+ *
+ * Activities are indexed in a sorted set scored by `lastUpdated`, so the cron finds
+ * active and stale sessions with one range query each and reads them with batched MGETs -
+ * the cost follows the number of sessions in range, not every session ever stored.
+ *
+ * Every `la:activity:*` key expires SESSION_TTL_SECONDS after its last state write, so
+ * abandoned sessions age out even with the cron disabled. Index entries older than the TTL
+ * belong to expired keys and are pruned before each index read; the index itself
+ * expires with its newest session.
+ *
+ * Sessions carry a `version` that every write increments. Writes are compare-and-set
+ * against the version the writer read, so concurrent updates, a late start and the
+ * cron can't silently overwrite each other - conflicts are returned to the caller.
+ *
+ * Reverse indexes - a set of activity IDs per player (`la:player:*`) and per push token
+ * (`la:token:*`), keyed by SHA-256 so IDs and tokens don't appear in key names - are
+ * refreshed with every state write and expire like the sessions. Entries whose session is
+ * gone or no longer matches are pruned when the index is read.
+ *
+ * Sessions follow a lifecycle state machine (see session-lifecycle.ts). Only live sessions
+ * (pending, active, stale) are in the index and the reverse indexes; a session that ends or
+ * fails is unindexed right away but kept until its TTL, so late updates can be rejected.
+ *
+ * Leases (`la:lease:*`) are documents created only if absent, with an expiry; their `version`
+ * is the fencing token, drawn from a counter (`la:lease:*:fence`) that outlives the leases.
+ *
+ * With SESSION_ENCRYPTION_KEYS set, pushToken and playerId are envelope-encrypted in the
+ * stored session (see session-crypto.ts) and decrypted on read - callers only see plaintext.
+ * Push-to-start and device token registrations are encrypted the same way. Per-player keys
+ * (`la:pts:*`, `la:device:*`, `la:milestones:*`) are SHA-256 of the player ID; records still
+ * under the former raw player ID key are moved on first read.
+ *
+ * Each session's stored states are kept in a capped list next to it (`la:history:*`),
+ * trimmed to SESSION_HISTORY_LIMIT on every append. The history expires SESSION_TTL_SECONDS
+ * after its last sample, so it outlives an ended session for debugging.
+ *
+ * Environment Variables:
+ * - SESSION_TTL_SECONDS: Session lifetime after the last state write (default: 2 hours)
+ * - SESSION_HISTORY_LIMIT: States kept per session history (default: 500)
+ */
+
+import { createHash } from 'crypto';
+import { normalizeMilestoneConfig, type MilestoneConfig } from './milestones';
+import type { APNsEnvironment } from './apns-client';
+import { SessionFieldCipher, type EncryptedFields } from './session-crypto';
+import { CURRENT_SESSION_SCHEMA_VERSION, upgradeSession, type SessionRecord } from './session-schema';
+import { createLifecycle, isLive, transition, type LifecycleState, type TransitionReason } from './session-lifecycle';
+import type {
+  SessionStore,
+  SessionStoreKind,
+  ActivitySession,
+  ActivityWriteResult,
+  Lease,
+  SessionMigrationReport,
+  StateSample,
+  BroadcastChannel,
+  PushToStartRegistration,
+  DeviceRegistration
+} from './session-store';
+
+const KV_KEY_PREFIX = 'la:activity:'; // Expires SESSION_TTL_SECONDS after the last state write
+const KV_INDEX_KEY = 'la:index:updated'; // Sorted set of activity IDs, scored by lastUpdated
+const KV_LEGACY_INDEX_KEY = 'la:index'; // Former plain set of activity IDs (migrated on first use)
+const KV_HISTORY_PREFIX = 'la:history:'; // List of received states per activity, oldest first
+const KV_PLAYER_ACTIVITIES_PREFIX = 'la:player:'; // Set of activity IDs per player (by SHA-256)
+const KV_TOKEN_ACTIVITIES_PREFIX = 'la:token:'; // Set of activity IDs per push token (by SHA-256)
+const KV_PUSH_TO_START_PREFIX = 'la:pts:';
+const KV_MILESTONES_PREFIX = 'la:milestones:';
+const KV_DEVICE_PREFIX = 'la:device:';
+const KV_CHANNEL_PREFIX = 'la:channel:';
+const KV_CHANNEL_INDEX_KEY = 'la:channels'; // Set of all broadcast channel IDs
+const KV_LEASE_PREFIX = 'la:lease:';
+
+/**
+ * Get KV key for an activity
+ */
+function getActivityKey(activityId: string): string {
+  return `${KV_KEY_PREFIX}${activityId}`;
+}
+
+/**
+ * Get KV key for an activity's state history
+ */
+function getHistoryKey(activityId: string): string {
+  return `${KV_HISTORY_PREFIX}${activityId}`;
+}
+
+/**
+ * Get KV key for the activities of a player
+ */
+function getPlayerActivitiesKey(playerId: string): string {
+  return `${KV_PLAYER_ACTIVITIES_PREFIX}${sha256(playerId)}`;
+}
+
+/**
+ * Get KV key for the activities registered with a push token
+ */
+function getTokenActivitiesKey(pushToken: string): string {
+  return `${KV_TOKEN_ACTIVITIES_PREFIX}${sha256(pushToken)}`;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Get KV key for a player's APNs device token
+ */
+function getDeviceKey(playerId: string): string {
+  return `${KV_DEVICE_PREFIX}${sha256(playerId)}`;
+}
+
+/**
+ * Get KV key for a broadcast channel
+ */
+function getChannelKey(channelId: string): string {
+  return `${KV_CHANNEL_PREFIX}${channelId}`;
+}
+
+/**
+ * Get KV keys for a lease and its fencing token counter
+ */
+function getLeaseKey(name: string): string {
+  return `${KV_LEASE_PREFIX}${name}`;
+}
+
+function getLeaseFenceKey(name: string): string {
+  return `${KV_LEASE_PREFIX}${name}:fence`;
+}
+
+/**
+ * Get KV key for a player's push-to-start token
+ */
+function getPushToStartKey(playerId: string): string {
+  return `${KV_PUSH_TO_START_PREFIX}${sha256(playerId)}`;
+}
+
+/**
+ * Get KV key for a player's milestone alert config
+ */
+function getMilestonesKey(playerId: string): string {
+  return `${KV_MILESTONES_PREFIX}${sha256(playerId)}`;
+}
+
+/**
+ * Former key of a per-player record - the raw player ID after the prefix
+ */
+function getLegacyPlayerKey(key: string, playerId: string): string {
+  return `${key.substring(0, key.lastIndexOf(':') + 1)}${playerId}`;
+}
+
+// Keys per MGET request when reading many sessions
+const MGET_BATCH_SIZE = 100;
+
+// Longer than the cron's stale threshold, so the cron can still end stale activities on the device
+const DEFAULT_SESSION_TTL_SECONDS = 2 * 60 * 60;
+
+// About 8 hours of per-minute reports
+const DEFAULT_HISTORY_LIMIT = 500;
+
+// Attempts for field merges (APNs environment, fired milestones) that lose a compare-and-set race
+const MAX_MERGE_ATTEMPTS = 3;
+
+// Options for set(): expire after ttlMs, or keep the key's current expiry (otherwise none)
+export interface SetOptions {
+  ttlMs?: number;
+  keepTtl?: boolean;
+}
+
+// A session as stored - with encryption configured, pushToken and playerId are replaced by `encrypted`;
+// records of older schema versions lack the fields added since (see session-schema.ts)
+type StoredActivitySession = SessionRecord & { encrypted?: EncryptedFields };
+
+// Any record as stored, with its sensitive fields possibly replaced by `encrypted`
+type StoredRecord = Record<string, unknown> & { encrypted?: EncryptedFields };
+
+// Fields encrypted at rest per record type
+const SESSION_SEALED_FIELDS = ['pushToken', 'playerId'];
+const PUSH_TO_START_SEALED_FIELDS = ['pushToStartToken', 'playerId'];
+const DEVICE_SEALED_FIELDS = ['deviceToken', 'playerId'];
+
+export abstract class KeyValueSessionStore implements SessionStore {
+  abstract readonly kind: SessionStoreKind;
+  readonly sessionTtlMs: number;
+  readonly historyLimit: number;
+  // Encrypts tokens and player IDs at rest (null = stored in plaintext)
+  private readonly cipher: SessionFieldCipher | null = SessionFieldCipher.fromEnv();
+
+  constructor() {
+    const ttlSeconds = Number(process.env.SESSION_TTL_SECONDS);
+    this.sessionTtlMs = (Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds : DEFAULT_SESSION_TTL_SECONDS) * 1000;
+    const historyLimit = Number(process.env.SESSION_HISTORY_LIMIT);
+    this.historyLimit = Number.isInteger(historyLimit) && historyLimit > 0 ? historyLimit : DEFAULT_HISTORY_LIMIT;
+  }
+
+  // Values are JSON documents - get() must return a copy the caller may mutate
+  protected abstract get<T>(key: string): Promise<T | null>;
+  protected abstract set(key: string, value: unknown, options?: SetOptions): Promise<void>;
+  protected abstract mget<T>(keys: string[]): Promise<(T | null)[]>;
+  // Atomically set a JSON document only if its `version` field (1 if absent) equals expectedVersion (0 = key must not exist)
+  protected abstract setIfVersion(key: string, expectedVersion: number, value: unknown, options?: SetOptions): Promise<boolean>;
+  protected abstract del(keys: string[]): Promise<void>;
+  // Atomically delete a JSON document only if its `version` field equals expectedVersion
+  protected abstract delIfVersion(key: string, expectedVersion: number): Promise<boolean>;
+  // Increment an integer counter (starting from 0) and return the new value
+  protected abstract incr(key: string): Promise<number>;
+  protected abstract sadd(key: string, member: string): Promise<void>;
+  protected abstract srem(key: string, member: string): Promise<void>;
+  protected abstract smembers(key: string): Promise<string[]>;
+  protected abstract zadd(key: string, entries: Array<{ score: number; member: string }>): Promise<void>;
+  protected abstract zrem(key: string, members: string[]): Promise<void>;
+  // Members with min <= score <= max, lowest score first
+  protected abstract zrangeByScore(key: string, min: number, max: number): Promise<string[]>;
+  protected abstract zcard(key: string): Promise<number>;
+  protected abstract zremRangeByScore(key: string, min: number, max: number): Promise<void>;
+  protected abstract expire(key: string, ttlMs: number): Promise<void>;
+  protected abstract rpush(key: string, values: unknown[]): Promise<void>;
+  // Keep only elements start..stop (inclusive, negative = from the end)
+  protected abstract ltrim(key: string, start: number, stop: number): Promise<void>;
+  protected abstract lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  // Remaining lifetime per key in ms: -1 = no expiry, -2 = missing
+  protected abstract pttl(keys: string[]): Promise<number[]>;
+  // One page of keys starting with prefix - pass the returned cursor until it is '0'
+  protected abstract scan(prefix: string, cursor: string, count: number): Promise<{ cursor: string; keys: string[] }>;
+
+  private legacyIndexMigration: Promise<void> | null = null;
+
+  /**
+   * Move activity IDs from the legacy `la:index` set into the sorted index (once per store)
+   */
+  private migrateLegacyIndex(): Promise<void> {
+    if (!this.legacyIndexMigration) {
+      this.legacyIndexMigration = (async () => {
+        const legacy = await this.smembers(KV_LEGACY_INDEX_KEY);
+        if (legacy.length === 0) return;
+
+        const now = Date.now();
+        const sessions = (await this.getSessions(legacy))
+          .filter((session): session is ActivitySession => session !== null);
+
+        // Legacy sessions have no TTL - give them what's left of theirs, drop the expired ones
+        const expired = sessions.filter(session => session.lastUpdated + this.sessionTtlMs <= now);
+        const live = sessions.filter(session => session.lastUpdated + this.sessionTtlMs > now);
+        for (const session of live) {
+          await this.expire(getActivityKey(session.activityId), session.lastUpdated + this.sessionTtlMs - now);
+        }
+        await this.del([...expired.map(session => getActivityKey(session.activityId)), KV_LEGACY_INDEX_KEY]);
+
+        const entries = live.map(session => ({ score: session.lastUpdated, member: session.activityId }));
+        if (entries.length > 0) {
+          await this.zadd(KV_INDEX_KEY, entries);
+          await this.expire(KV_INDEX_KEY, this.sessionTtlMs);
+        }
+        console.log(`[SessionStore] 🔀 Migrated ${entries.length} activities from the legacy index (${expired.length} expired)`);
+      })().catch(error => {
+        this.legacyIndexMigration = null; // Try again on the next call
+        throw error;
+      });
+    }
+    return this.legacyIndexMigration;
+  }
+
+  /**
+   * Activity IDs whose lastUpdated is within [min, max]
+   * (entries past the TTL point at expired keys and are pruned first)
+   */
+  private async indexRange(min: number, max: number): Promise<string[]> {
+    await this.migrateLegacyIndex();
+    await this.zremRangeByScore(KV_INDEX_KEY, -Infinity, Date.now() - this.sessionTtlMs);
+    return this.zrangeByScore(KV_INDEX_KEY, min, max);
+  }
+
+  /**
+   * Read many sessions with batched MGETs (null where a session is missing)
+   */
+  private async getSessions(activityIds: string[]): Promise<(ActivitySession | null)[]> {
+    const sessions: (ActivitySession | null)[] = [];
+    for (let i = 0; i < activityIds.length; i += MGET_BATCH_SIZE) {
+      const batch = activityIds.slice(i, i + MGET_BATCH_SIZE);
+      sessions.push(...(await this.mget<StoredActivitySession>(batch.map(getActivityKey))).map(stored => this.decodeSession(stored)));
+    }
+    return sessions;
+  }
+
+  private async readSession(activityId: string): Promise<ActivitySession | null> {
+    return this.decodeSession(await this.get<StoredActivitySession>(getActivityKey(activityId)));
+  }
+
+  /**
+   * Stored form of a record - the given fields encrypted when a key is configured
+   * `context` (activity ID or key) binds the ciphertext to this record
+   */
+  private sealFields(record: object, fields: string[], context: string): StoredRecord {
+    const stored: StoredRecord = { ...record };
+    if (!this.cipher || fields.length === 0) {
+      return stored;
+    }
+    const sealed: Record<string, string> = {};
+    for (const field of fields) {
+      if (typeof stored[field] === 'string') {
+        sealed[field] = stored[field] as string;
+        delete stored[field];
+      }
+    }
+    return { ...stored, encrypted: this.cipher.seal(sealed, context) };
+  }
+
+  /**
+   * Record from its stored form - plaintext records (stored before encryption was enabled) read as they are
+   * Throws if the record is encrypted with a key that isn't configured
+   */
+  private openFields(stored: StoredRecord, context: string, label: string): Record<string, unknown> {
+    const { encrypted, ...record } = stored;
+    if (encrypted) {
+      if (!this.cipher) {
+        throw new Error(`${label} is encrypted but no SESSION_ENCRYPTION_KEYS are configured`);
+      }
+      Object.assign(record, this.cipher.open(encrypted, context));
+    }
+    return record;
+  }
+
+  /**
+   * Read a per-player record (sealed fields decrypted) - one still stored under the former raw
+   * player ID key is moved to the hashed key, encrypted if a key is configured
+   */
+  private async readPlayerRecord<T>(key: string, playerId: string, fields: string[]): Promise<T | null> {
+    const label = `Record ${key.substring(0, key.lastIndexOf(':') + 1)}* of player ${playerId.substring(0, 8)}...`;
+    const stored = await this.get<StoredRecord>(key);
+    if (stored) {
+      return this.openFields(stored, key, label) as T;
+    }
+
+    const legacyKey = getLegacyPlayerKey(key, playerId);
+    const legacy = await this.get<StoredRecord>(legacyKey);
+    if (!legacy) {
+      return null;
+    }
+    const record = this.openFields(legacy, legacyKey, label);
+    await this.writePlayerRecord(key, record, fields);
+    await this.del([legacyKey]);
+    console.log(`[SessionStore] 🔀 Moved ${label} to its hashed key`);
+    return record as T;
+  }
+
+  private async writePlayerRecord(key: string, record: object, fields: string[]): Promise<void> {
+    await this.set(key, this.sealFields(record, fields, key));
+  }
+
+  /**
+   * Stored form of a session - sensitive fields encrypted when a key is configured
+   */
+  private encodeSession(session: ActivitySession): StoredActivitySession {
+    return this.sealFields(session, SESSION_SEALED_FIELDS, session.activityId) as StoredActivitySession;
+  }
+
+  /**
+   * Session from its stored form, upgraded to the current schema - plaintext records (stored
+   * before encryption was enabled) read as they are
+   * Throws if the record is encrypted with a key that isn't configured, rather than treat the session as gone
+   */
+  private decodeStored(stored: StoredActivitySession | null): { session: ActivitySession; fromVersion: number } | null {
+    if (!stored) {
+      return null;
+    }
+    const record = this.openFields(stored, stored.activityId, `Session ${stored.activityId.substring(0, 8)}...`);
+    return upgradeSession(record as SessionRecord);
+  }
+
+  private decodeSession(stored: StoredActivitySession | null): ActivitySession | null {
+    return this.decodeStored(stored)?.session ?? null;
+  }
+
+  /**
+   * Delete sessions and their index entries in two requests
+   */
+  private async removeActivities(activityIds: string[]): Promise<void> {
+    if (activityIds.length === 0) return;
+    await this.del(activityIds.map(getActivityKey));
+    await this.zrem(KV_INDEX_KEY, activityIds);
+  }
+
+  /**
+   * Write a session if it's still at expectedVersion (0 = must not exist yet)
+   * State writes refresh the TTL and move the session in the index to its lastUpdated;
+   * other writes keep both. Sessions that are no longer live leave all indexes.
+   */
+  private async writeSession(session: ActivitySession, expectedVersion: number, stateWrite: boolean): Promise<boolean> {
+    const written = await this.setIfVersion(
+      getActivityKey(session.activityId),
+      expectedVersion,
+      this.encodeSession(session),
+      stateWrite ? { ttlMs: this.sessionTtlMs } : { keepTtl: true }
+    );
+    if (written && !isLive(session.lifecycle.state)) {
+      await this.zrem(KV_INDEX_KEY, [session.activityId]);
+      await this.unindexSession(session);
+    } else if (written && stateWrite) {
+      await this.zadd(KV_INDEX_KEY, [{ score: session.lastUpdated, member: session.activityId }]);
+      await this.expire(KV_INDEX_KEY, this.sessionTtlMs);
+      await this.indexSession(session);
+    }
+    return written;
+  }
+
+  /**
+   * Add a session to the player and push token indexes (and keep them alive as long as it)
+   */
+  private async indexSession(session: ActivitySession): Promise<void> {
+    const keys = [getPlayerActivitiesKey(session.playerId)];
+    if (session.pushToken) {
+      keys.push(getTokenActivitiesKey(session.pushToken)); // Channel-only activities have no token
+    }
+    for (const key of keys) {
+      await this.sadd(key, session.activityId);
+      await this.expire(key, this.sessionTtlMs);
+    }
+  }
+
+  private async unindexSession(session: ActivitySession): Promise<void> {
+    await this.srem(getPlayerActivitiesKey(session.playerId), session.activityId);
+    if (session.pushToken) {
+      await this.srem(getTokenActivitiesKey(session.pushToken), session.activityId);
+    }
+  }
+
+  /**
+   * Live sessions listed in a reverse index that still match it - prunes the others
+   */
+  private async reverseLookup(key: string, matches: (session: ActivitySession) => boolean): Promise<ActivitySession[]> {
+    const activityIds = await this.smembers(key);
+    const sessions = await this.getSessions(activityIds);
+    const found: ActivitySession[] = [];
+    for (const [i, session] of sessions.entries()) {
+      if (session && isLive(session.lifecycle.state) && matches(session)) {
+        found.push(session);
+      } else {
+        await this.srem(key, activityIds[i]);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Read-modify-write a session with compare-and-set
+   * With expectedVersion, the session must still be at the version the caller read;
+   * `modify` returns false when the session's lifecycle state doesn't allow the write
+   */
+  private async modifySession(
+    activityId: string,
+    modify: (session: ActivitySession) => void | false,
+    options: { expectedVersion?: number; stateWrite: boolean }
+  ): Promise<ActivityWriteResult> {
+    const current = await this.readSession(activityId);
+    if (!current) {
+      return { ok: false, reason: 'not_found', current: null };
+    }
+    if (options.expectedVersion !== undefined && current.version !== options.expectedVersion) {
+      return { ok: false, reason: 'conflict', current };
+    }
+
+    const next: ActivitySession = { ...current, version: current.version + 1 };
+    if (modify(next) === false) {
+      return { ok: false, reason: 'invalid_transition', current };
+    }
+    if (!await this.writeSession(next, current.version, options.stateWrite)) {
+      return { ok: false, reason: 'conflict', current: await this.readSession(activityId) };
+    }
+    return { ok: true, session: next };
+  }
+
+  /**
+   * Field merges can simply be re-applied to the newer session when they lose a race
+   */
+  private async mergeIntoSession(activityId: string, modify: (session: ActivitySession) => void | false): Promise<ActivityWriteResult> {
+    let result: ActivityWriteResult = { ok: false, reason: 'not_found', current: null };
+    for (let attempt = 1; attempt <= MAX_MERGE_ATTEMPTS; attempt++) {
+      result = await this.modifySession(activityId, modify, { stateWrite: false });
+      if (result.ok || result.reason !== 'conflict') break;
+    }
+    return result;
+  }
+
+  async storeActivity(
+    activityId: string,
+    playerId: string,
+    pushToken: string,
+    state: ActivitySession['state'],
+    options: {
+      apnsEnvironment?: APNsEnvironment;
+      channelId?: string;
+      expectedVersion?: number;
+      lifecycle?: { state: 'pending' | 'active'; reason: TransitionReason };
+    } = {}
+  ): Promise<ActivityWriteResult> {
+    try {
+      // Without expectedVersion this replaces whatever session is stored now
+      const existing = await this.readSession(activityId);
+      const expectedVersion = options.expectedVersion ?? existing?.version ?? 0;
+
+      // A restarted activity continues its lifecycle, replacing the stored registration - unless it already ended
+      const { state: lifecycleState, reason } = options.lifecycle ?? { state: 'pending', reason: 'start' };
+      const now = Date.now();
+      const lifecycle = existing && existing.version === expectedVersion
+        ? transition(existing.lifecycle, lifecycleState, 'replaced', now)
+        : createLifecycle(lifecycleState, reason, now);
+      if (!lifecycle) {
+        console.warn(`[SessionStore] ⚠️ Not storing activity ${activityId.substring(0, 8)}... - it is ${existing!.lifecycle.state}`);
+        return { ok: false, reason: 'invalid_transition', current: existing };
+      }
+
+      const session: ActivitySession = {
+        activityId,
+        playerId,
+        pushToken,
+        state,
+        lastUpdated: now,
+        version: expectedVersion + 1,
+        schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+        lifecycle,
+        ...(options.apnsEnvironment && { apnsEnvironment: options.apnsEnvironment }),
+        ...(options.channelId && { channelId: options.channelId })
+      };
+
+      // Store the activity and index it by lastUpdated
+      if (!await this.writeSession(session, expectedVersion, true)) {
+        const current = await this.readSession(activityId);
+        console.warn(`[SessionStore] ⚠️ Conflict storing activity ${activityId.substring(0, 8)}... - expected version ${expectedVersion}, found ${current?.version ?? 'none'}`);
+        return { ok: false, reason: 'conflict', current };
+      }
+
+      if (pushToken) {
+        await this.warnOnSharedPushToken(session);
+      }
+
+      console.log(`[SessionStore] ✅ Stored activity ${activityId.substring(0, 8)}... for player ${playerId.substring(0, 8)}... pushToken: ${pushToken.substring(0, 8)}...${options.channelId ? ` channel: ${options.channelId.substring(0, 8)}...` : ''} (version ${session.version}, ${lifecycle.state})`);
+      return { ok: true, session };
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to store activity ${activityId.substring(0, 8)}...:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * One push token should belong to one activity - a second one usually means the app
+   * restarted the activity without ending the old session
+   */
+  private async warnOnSharedPushToken(session: ActivitySession): Promise<void> {
+    const owners = await this.reverseLookup(getTokenActivitiesKey(session.pushToken), other => other.pushToken === session.pushToken);
+    const others = owners.filter(other => other.activityId !== session.activityId);
+    if (others.length > 0) {
+      console.warn(`[SessionStore] ⚠️ Push token ${session.pushToken.substring(0, 8)}... of activity ${session.activityId.substring(0, 8)}... is also registered under ${others.map(other => `${other.activityId.substring(0, 8)}...`).join(', ')}`);
+    }
+  }
+
+  async storeActivityState(
+    activityId: string,
+    playerId: string,
+    state: ActivitySession['state']
+  ): Promise<ActivityWriteResult> {
+    try {
+      const result = await this.modifySession(activityId, session => {
+        const lifecycle = transition(session.lifecycle, 'active', 'update');
+        if (!lifecycle) return false;
+        session.lifecycle = lifecycle;
+        session.state = state;
+        session.lastUpdated = Date.now();
+      }, { stateWrite: true });
+      if (result.ok) {
+        console.log(`[SessionStore] ✅ Updated state for activityId=${activityId.substring(0, 8)}... soc=${state.soc}%`);
+      } else if (result.reason === 'not_found') {
+        // Can't create without pushToken - should have been created by START
+        console.warn(`[SessionStore] ⚠️ Activity ${activityId.substring(0, 8)}... not found - cannot store state without pushToken. It should have been created by START endpoint.`);
+      } else if (result.reason === 'invalid_transition') {
+        console.warn(`[SessionStore] ⚠️ Rejected state for activityId=${activityId.substring(0, 8)}... - it is ${result.current?.lifecycle.state}`);
+      } else {
+        console.warn(`[SessionStore] ⚠️ Conflict updating state for activityId=${activityId.substring(0, 8)}... - changed concurrently`);
+      }
+      return result;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to update activity state ${activityId.substring(0, 8)}...:`, error);
+      throw error;
+    }
+  }
+
+  async updateActivityState(
+    activityId: string,
+    state: ActivitySession['state'],
+    options: { expectedVersion?: number; firedMilestones?: string[] } = {}
+  ): Promise<ActivityWriteResult> {
+    try {
+      const result = await this.modifySession(activityId, session => {
+        const lifecycle = transition(session.lifecycle, 'active', 'update');
+        if (!lifecycle) return false;
+        session.lifecycle = lifecycle;
+        session.state = state;
+        session.lastUpdated = Date.now();
+        if (options.firedMilestones?.length) {
+          session.firedMilestones = [...new Set([...(session.firedMilestones || []), ...options.firedMilestones])];
+        }
+      }, { expectedVersion: options.expectedVersion, stateWrite: true });
+
+      if (result.ok) {
+        console.log(`[SessionStore] ✅ Updated state for activityId=${activityId.substring(0, 8)}... soc=${state.soc}% (version ${result.session.version})`);
+      } else if (result.reason === 'not_found') {
+        console.warn(`[SessionStore] ⚠️ Activity ${activityId.substring(0, 8)}... not found for update`);
+      } else if (result.reason === 'invalid_transition') {
+        console.warn(`[SessionStore] ⚠️ Rejected update for activityId=${activityId.substring(0, 8)}... - it is ${result.current?.lifecycle.state}`);
+      } else {
+        console.warn(`[SessionStore] ⚠️ Conflict updating activityId=${activityId.substring(0, 8)}... - expected version ${options.expectedVersion ?? 'latest'}, found ${result.current?.version ?? 'none'}`);
+      }
+      return result;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to update activity state ${activityId.substring(0, 8)}...:`, error);
+      return { ok: false, reason: 'error', current: null };
+    }
+  }
+
+  async getActivity(activityId: string): Promise<ActivitySession | null> {
+    try {
+      return await this.readSession(activityId);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get activity ${activityId.substring(0, 8)}...:`, error);
+      return null;
+    }
+  }
+
+  async getActivitiesForPlayer(playerId: string): Promise<ActivitySession[]> {
+    try {
+      return await this.reverseLookup(getPlayerActivitiesKey(playerId), session => session.playerId === playerId);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get activities for player ${playerId.substring(0, 8)}...:`, error);
+      return [];
+    }
+  }
+
+  async getActivitiesForPushToken(pushToken: string): Promise<ActivitySession[]> {
+    try {
+      return await this.reverseLookup(getTokenActivitiesKey(pushToken), session => session.pushToken === pushToken);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get activities for push token ${pushToken.substring(0, 8)}...:`, error);
+      return [];
+    }
+  }
+
+  async transitionActivity(activityId: string, to: LifecycleState, reason: TransitionReason): Promise<ActivityWriteResult> {
+    try {
+      let from: LifecycleState | null = null;
+      const result = await this.mergeIntoSession(activityId, session => {
+        const lifecycle = transition(session.lifecycle, to, reason);
+        if (!lifecycle) return false;
+        from = session.lifecycle.state;
+        session.lifecycle = lifecycle;
+      });
+      if (result.ok) {
+        console.log(`[SessionStore] 🔁 Activity ${activityId.substring(0, 8)}...: ${from} → ${to} (${reason})`);
+      } else if (result.reason === 'invalid_transition') {
+        console.warn(`[SessionStore] ⚠️ Illegal transition for activityId=${activityId.substring(0, 8)}...: ${result.current?.lifecycle.state} → ${to} (${reason})`);
+      } else if (result.reason === 'conflict') {
+        console.warn(`[SessionStore] ⚠️ Could not move activityId=${activityId.substring(0, 8)}... to ${to} - kept conflicting`);
+      }
+      return result;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to move activity ${activityId.substring(0, 8)}... to ${to}:`, error);
+      return { ok: false, reason: 'error', current: null };
+    }
+  }
+
+  async removeActivity(activityId: string): Promise<void> {
+    try {
+      // Unindexed right away here; batch removals leave their entries to be pruned on lookup
+      const session = await this.readSession(activityId);
+      await this.removeActivities([activityId]);
+      if (session) {
+        await this.unindexSession(session);
+      }
+      console.log(`[SessionStore] ✅ Removed activityId=${activityId.substring(0, 8)}...`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to remove activity ${activityId.substring(0, 8)}...:`, error);
+      // Don't throw - removal failures are non-critical
+    }
+  }
+
+  async getAllActiveActivities(staleThresholdMs: number = 15 * 60 * 1000): Promise<ActivitySession[]> {
+    try {
+      const cutoff = Date.now() - staleThresholdMs;
+
+      // Active: updated after the cutoff - only these sessions are read
+      const activeIds = await this.indexRange(cutoff + 1, Infinity);
+      const sessions = await this.getSessions(activeIds);
+      const active = sessions.filter((session): session is ActivitySession => session !== null && isLive(session.lifecycle.state));
+
+      // Read-only: older sessions are left for cleanupStaleActivities(), whose caller also ends them on the device
+      console.log(`[SessionStore] ✅ Found ${active.length} active activities`);
+      return active;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get all active activities:`, error);
+      // Return empty array on error to prevent cron job failures
+      return [];
+    }
+  }
+
+  async cleanupStaleActivities(staleThresholdMs: number = 10 * 60 * 1000): Promise<ActivitySession[]> {
+    try {
+      const staleIds = await this.indexRange(-Infinity, Date.now() - staleThresholdMs);
+      if (staleIds.length === 0) {
+        return [];
+      }
+
+      // Ended rather than deleted - an update arriving after this is rejected instead of recreating the session
+      const sessions = await this.getSessions(staleIds);
+      const ended: ActivitySession[] = [];
+      for (const [i, session] of sessions.entries()) {
+        if (!session) {
+          await this.zrem(KV_INDEX_KEY, [staleIds[i]]);
+          continue;
+        }
+        const result = await this.transitionActivity(session.activityId, 'ended', 'stale_timeout');
+        if (result.ok) {
+          ended.push(result.session);
+        }
+      }
+      console.log(`[SessionStore] 🧹 Ended ${ended.length} of ${staleIds.length} stale activities`);
+
+      return ended;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to cleanup stale activities:`, error);
+      return [];
+    }
+  }
+
+  async setActivityApnsEnvironment(activityId: string, apnsEnvironment: APNsEnvironment): Promise<void> {
+    try {
+      const existing = await this.readSession(activityId);
+      if (existing && existing.apnsEnvironment !== apnsEnvironment) {
+        const result = await this.mergeIntoSession(activityId, session => {
+          session.apnsEnvironment = apnsEnvironment;
+        });
+        if (result.ok) {
+          console.log(`[SessionStore] ✅ Set APNs environment for activityId=${activityId.substring(0, 8)}... to ${apnsEnvironment}`);
+        }
+      }
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to set APNs environment for ${activityId.substring(0, 8)}...:`, error);
+      // Don't throw - the next push simply probes the environment again
+    }
+  }
+
+  async recordFiredMilestones(activityId: string, milestoneIds: string[]): Promise<void> {
+    if (milestoneIds.length === 0) return;
+    try {
+      const result = await this.mergeIntoSession(activityId, session => {
+        session.firedMilestones = [...new Set([...(session.firedMilestones || []), ...milestoneIds])];
+      });
+      if (result.ok) {
+        console.log(`[SessionStore] ✅ Recorded milestones [${milestoneIds.join(', ')}] for activityId=${activityId.substring(0, 8)}...`);
+      } else if (result.reason === 'conflict') {
+        console.warn(`[SessionStore] ⚠️ Could not record milestones for activityId=${activityId.substring(0, 8)}... - kept conflicting`);
+      }
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to record milestones for ${activityId.substring(0, 8)}...:`, error);
+      // Don't throw - worst case a milestone alert repeats
+    }
+  }
+
+  async appendStateHistory(activityId: string, sample: StateSample): Promise<void> {
+    try {
+      const key = getHistoryKey(activityId);
+      await this.rpush(key, [sample]);
+      await this.ltrim(key, -this.historyLimit, -1);
+      await this.expire(key, this.sessionTtlMs);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to append state history for ${activityId.substring(0, 8)}...:`, error);
+      // Don't throw - history is for debugging and analytics only
+    }
+  }
+
+  async getStateHistory(activityId: string, limit: number = this.historyLimit): Promise<StateSample[]> {
+    try {
+      const count = Math.min(Math.max(1, Math.floor(limit)), this.historyLimit);
+      return await this.lrange<StateSample>(getHistoryKey(activityId), -count, -1);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get state history for ${activityId.substring(0, 8)}...:`, error);
+      return [];
+    }
+  }
+
+  async storeMilestoneConfig(playerId: string, config: Partial<MilestoneConfig>): Promise<MilestoneConfig> {
+    const normalized = normalizeMilestoneConfig(config);
+    try {
+      await this.writePlayerRecord(getMilestonesKey(playerId), normalized, []);
+      console.log(`[SessionStore] ✅ Stored milestone config for player ${playerId.substring(0, 8)}...: thresholds=[${normalized.socThresholds.join(', ')}]`);
+      return normalized;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to store milestone config for player ${playerId.substring(0, 8)}...:`, error);
+      throw error;
+    }
+  }
+
+  async getMilestoneConfig(playerId: string | undefined): Promise<MilestoneConfig> {
+    if (!playerId) return normalizeMilestoneConfig(null);
+    try {
+      const config = await this.readPlayerRecord<MilestoneConfig>(getMilestonesKey(playerId), playerId, []);
+      return normalizeMilestoneConfig(config);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get milestone config for player ${playerId.substring(0, 8)}...:`, error);
+      return normalizeMilestoneConfig(null);
+    }
+  }
+
+  async storePushToStartToken(playerId: string, pushToStartToken: string): Promise<void> {
+    try {
+      const registration: PushToStartRegistration = {
+        playerId,
+        pushToStartToken,
+        registeredAt: Date.now()
+      };
+      await this.writePlayerRecord(getPushToStartKey(playerId), registration, PUSH_TO_START_SEALED_FIELDS);
+      console.log(`[SessionStore] ✅ Stored push-to-start token for player ${playerId.substring(0, 8)}... token: ${pushToStartToken.substring(0, 8)}...`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to store push-to-start token for player ${playerId.substring(0, 8)}...:`, error);
+      throw error;
+    }
+  }
+
+  async getPushToStartToken(playerId: string): Promise<PushToStartRegistration | null> {
+    try {
+      return await this.readPlayerRecord<PushToStartRegistration>(getPushToStartKey(playerId), playerId, PUSH_TO_START_SEALED_FIELDS);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get push-to-start token for player ${playerId.substring(0, 8)}...:`, error);
+      return null;
+    }
+  }
+
+  async markPushToStartRequested(playerId: string): Promise<void> {
+    try {
+      const key = getPushToStartKey(playerId);
+      const registration = await this.readPlayerRecord<PushToStartRegistration>(key, playerId, PUSH_TO_START_SEALED_FIELDS);
+      if (registration) {
+        registration.lastStartRequestedAt = Date.now();
+        await this.writePlayerRecord(key, registration, PUSH_TO_START_SEALED_FIELDS);
+      }
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to mark push-to-start for player ${playerId.substring(0, 8)}...:`, error);
+      // Don't throw - worst case a duplicate start is attempted
+    }
+  }
+
+  async removePushToStartToken(playerId: string): Promise<void> {
+    try {
+      const key = getPushToStartKey(playerId);
+      await this.del([key, getLegacyPlayerKey(key, playerId)]);
+      console.log(`[SessionStore] ✅ Removed push-to-start token for player ${playerId.substring(0, 8)}...`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to remove push-to-start token for player ${playerId.substring(0, 8)}...:`, error);
+      // Don't throw - removal failures are non-critical
+    }
+  }
+
+  async storeDeviceToken(
+    playerId: string,
+    deviceToken: string,
+    options: { apnsEnvironment?: APNsEnvironment } = {}
+  ): Promise<void> {
+    try {
+      const registration: DeviceRegistration = {
+        playerId,
+        deviceToken,
+        registeredAt: Date.now(),
+        ...(options.apnsEnvironment && { apnsEnvironment: options.apnsEnvironment })
+      };
+      await this.writePlayerRecord(getDeviceKey(playerId), registration, DEVICE_SEALED_FIELDS);
+      console.log(`[SessionStore] ✅ Stored device token for player ${playerId.substring(0, 8)}... token: ${deviceToken.substring(0, 8)}...`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to store device token for player ${playerId.substring(0, 8)}...:`, error);
+      throw error;
+    }
+  }
+
+  async getDeviceToken(playerId: string): Promise<DeviceRegistration | null> {
+    try {
+      return await this.readPlayerRecord<DeviceRegistration>(getDeviceKey(playerId), playerId, DEVICE_SEALED_FIELDS);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get device token for player ${playerId.substring(0, 8)}...:`, error);
+      return null;
+    }
+  }
+
+  async setDeviceApnsEnvironment(playerId: string, apnsEnvironment: APNsEnvironment): Promise<void> {
+    try {
+      const key = getDeviceKey(playerId);
+      const registration = await this.readPlayerRecord<DeviceRegistration>(key, playerId, DEVICE_SEALED_FIELDS);
+      if (registration && registration.apnsEnvironment !== apnsEnvironment) {
+        registration.apnsEnvironment = apnsEnvironment;
+        await this.writePlayerRecord(key, registration, DEVICE_SEALED_FIELDS);
+        console.log(`[SessionStore] ✅ Device token for player ${playerId.substring(0, 8)}... uses APNs ${apnsEnvironment}`);
+      }
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to set device APNs environment for player ${playerId.substring(0, 8)}...:`, error);
+      // Don't throw - the environment is re-detected on the next push
+    }
+  }
+
+  async removeDeviceToken(playerId: string): Promise<void> {
+    try {
+      const key = getDeviceKey(playerId);
+      await this.del([key, getLegacyPlayerKey(key, playerId)]);
+      console.log(`[SessionStore] ✅ Removed device token for player ${playerId.substring(0, 8)}...`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to remove device token for player ${playerId.substring(0, 8)}...:`, error);
+      // Don't throw - removal failures are non-critical
+    }
+  }
+
+  async storeChannel(channel: BroadcastChannel): Promise<void> {
+    try {
+      await this.set(getChannelKey(channel.channelId), channel);
+      await this.sadd(KV_CHANNEL_INDEX_KEY, channel.channelId);
+      console.log(`[SessionStore] ✅ Stored broadcast channel ${channel.channelId.substring(0, 8)}... (${channel.name})`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to store broadcast channel ${channel.channelId.substring(0, 8)}...:`, error);
+      throw error;
+    }
+  }
+
+  async getChannel(channelId: string): Promise<BroadcastChannel | null> {
+    try {
+      const channel = await this.get<BroadcastChannel>(getChannelKey(channelId));
+      return channel || null;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get broadcast channel ${channelId.substring(0, 8)}...:`, error);
+      return null;
+    }
+  }
+
+  async getAllChannels(): Promise<BroadcastChannel[]> {
+    try {
+      const index = await this.smembers(KV_CHANNEL_INDEX_KEY);
+      if (index.length === 0) return [];
+      const channels = await this.mget<BroadcastChannel>(index.map(getChannelKey));
+      return channels.filter((c): c is BroadcastChannel => c !== null);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get broadcast channels:`, error);
+      return [];
+    }
+  }
+
+  async removeChannel(channelId: string): Promise<void> {
+    try {
+      await this.del([getChannelKey(channelId)]);
+      await this.srem(KV_CHANNEL_INDEX_KEY, channelId);
+      console.log(`[SessionStore] ✅ Removed broadcast channel ${channelId.substring(0, 8)}...`);
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to remove broadcast channel ${channelId.substring(0, 8)}...:`, error);
+      // Don't throw - removal failures are non-critical
+    }
+  }
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null> {
+    try {
+      // Drawn before trying, so tokens keep growing even across failed attempts
+      const fencingToken = await this.incr(getLeaseFenceKey(name));
+      const now = Date.now();
+      const lease: Lease = { name, holder, fencingToken, acquiredAt: now, expiresAt: now + ttlMs };
+      if (!await this.setIfVersion(getLeaseKey(name), 0, { ...lease, version: fencingToken }, { ttlMs })) {
+        return null;
+      }
+      console.log(`[SessionStore] 🔒 Lease ${name} acquired by ${holder} (fencing token ${fencingToken})`);
+      return lease;
+    } catch (error) {
+      // Not null - the caller would take a store outage for a lease held by someone else
+      console.error(`[SessionStore] ❌ Failed to acquire lease ${name}:`, error);
+      throw error;
+    }
+  }
+
+  async checkLease(lease: Lease): Promise<boolean> {
+    try {
+      const current = await this.getLease(lease.name);
+      return current?.fencingToken === lease.fencingToken;
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to check lease ${lease.name}:`, error);
+      return false;
+    }
+  }
+
+  async releaseLease(lease: Lease): Promise<void> {
+    try {
+      if (await this.delIfVersion(getLeaseKey(lease.name), lease.fencingToken)) {
+        console.log(`[SessionStore] 🔓 Lease ${lease.name} released by ${lease.holder}`);
+      } else {
+        console.warn(`[SessionStore] ⚠️ Lease ${lease.name} (fencing token ${lease.fencingToken}) had already expired or been taken over`);
+      }
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to release lease ${lease.name}:`, error);
+      // Don't throw - the lease expires on its own
+    }
+  }
+
+  async getLease(name: string): Promise<Lease | null> {
+    const stored = await this.get<Lease & { version: number }>(getLeaseKey(name));
+    if (!stored) {
+      return null;
+    }
+    const { version, ...lease } = stored;
+    return lease;
+  }
+
+  async migrateSessions(options: { dryRun?: boolean } = {}): Promise<SessionMigrationReport> {
+    const report: SessionMigrationReport = {
+      dryRun: !!options.dryRun,
+      schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+      total: 0,
+      bySchemaVersion: {},
+      rewritten: 0,
+      failed: [],
+      registrations: { total: 0, rewritten: 0, failed: 0 }
+    };
+
+    // Every stored session key - the index only lists live sessions (ended and failed ones are kept until their TTL)
+    let cursor = '0';
+    do {
+      const page = await this.scan(KV_KEY_PREFIX, cursor, MGET_BATCH_SIZE);
+      cursor = page.cursor;
+      if (page.keys.length === 0) continue;
+      const stored = await this.mget<StoredActivitySession>(page.keys);
+      for (const [j, record] of stored.entries()) {
+        const activityId = page.keys[j].substring(KV_KEY_PREFIX.length);
+        try {
+          const decoded = this.decodeStored(record);
+          if (!decoded) continue; // Expired since the scan
+          report.total++;
+          report.bySchemaVersion[decoded.fromVersion] = (report.bySchemaVersion[decoded.fromVersion] ?? 0) + 1;
+          if (options.dryRun) continue;
+
+          // Rewriting stores the upgraded shape (encrypted with the newest key, if configured)
+          const result = await this.mergeIntoSession(activityId, () => {});
+          if (result.ok) {
+            report.rewritten++;
+          } else if (result.reason !== 'not_found') {
+            report.failed.push(activityId.substring(0, 8) + '...');
+          }
+        } catch (error) {
+          console.error(`[SessionStore] ❌ Failed to migrate session ${activityId.substring(0, 8)}...:`, error);
+          report.failed.push(activityId.substring(0, 8) + '...');
+        }
+      }
+    } while (cursor !== '0');
+
+    await this.migrateRegistrations(KV_PUSH_TO_START_PREFIX, getPushToStartKey, PUSH_TO_START_SEALED_FIELDS, report);
+    await this.migrateRegistrations(KV_DEVICE_PREFIX, getDeviceKey, DEVICE_SEALED_FIELDS, report);
+
+    console.log(`[SessionStore] 🔀 ${report.dryRun ? 'Dry run: ' : ''}${report.total} sessions (by schema version: ${JSON.stringify(report.bySchemaVersion)}), ${report.rewritten} rewritten, ${report.failed.length} failed; ${report.registrations.total} registrations, ${report.registrations.rewritten} rewritten, ${report.registrations.failed} failed`);
+    return report;
+  }
+
+  /**
+   * Re-encrypt every registration under `prefix` that isn't sealed with the newest key - they
+   * never expire, so without this a registration the app doesn't renew keeps the old key in use.
+   * Ones still under the former raw player ID key are moved to the hashed key.
+   */
+  private async migrateRegistrations(
+    prefix: string,
+    keyFor: (playerId: string) => string,
+    fields: string[],
+    report: SessionMigrationReport
+  ): Promise<void> {
+    let cursor = '0';
+    do {
+      const page = await this.scan(prefix, cursor, MGET_BATCH_SIZE);
+      cursor = page.cursor;
+      if (page.keys.length === 0) continue;
+      const stored = await this.mget<StoredRecord>(page.keys);
+      for (const [j, record] of stored.entries()) {
+        const key = page.keys[j];
+        if (!record) continue; // Removed since the scan
+        report.registrations.total++;
+        try {
+          const registration = this.openFields(record, key, `Record ${prefix}*`);
+          if (typeof registration.playerId !== 'string') {
+            throw new Error('Registration has no playerId');
+          }
+          const hashedKey = keyFor(registration.playerId);
+          const current = key === hashedKey && (!this.cipher || record.encrypted?.keyId === this.cipher.activeKeyId);
+          if (report.dryRun || current) continue;
+
+          if (key === hashedKey) {
+            await this.writePlayerRecord(key, registration, fields);
+          } else {
+            // Moved unless the hashed key already holds a newer registration - the old one goes either way
+            await this.readPlayerRecord(hashedKey, registration.playerId, fields);
+            await this.del([key]);
+          }
+          report.registrations.rewritten++;
+        } catch (error) {
+          console.error(`[SessionStore] ❌ Failed to migrate registration ${prefix}*:`, error);
+          report.registrations.failed++;
+        }
+      }
+    } while (cursor !== '0');
+  }
+
+  async getStoreStats() {
+    try {
+      const now = Date.now();
+      const index = await this.indexRange(-Infinity, Infinity);
+      const sessions = await this.getSessions(index);
+      const ttls = index.length > 0 ? await this.pttl(index.map(getActivityKey)) : [];
+      const activities = sessions.flatMap((session, i) => session ? [{
+        activityId: session.activityId.substring(0, 8) + '...',
+        lifecycleState: session.lifecycle.state,
+        lastUpdated: new Date(session.lastUpdated).toISOString(),
+        ageMinutes: Math.round((now - session.lastUpdated) / 60000),
+        ttlSeconds: ttls[i] >= 0 ? Math.ceil(ttls[i] / 1000) : null // null = no expiry
+      }] : []);
+
+      return {
+        backend: this.kind,
+        sessionTtlSeconds: this.sessionTtlMs / 1000,
+        total: await this.zcard(KV_INDEX_KEY),
+        activities
+      };
+    } catch (error) {
+      console.error(`[SessionStore] ❌ Failed to get store stats:`, error);
+      return { backend: this.kind, sessionTtlSeconds: this.sessionTtlMs / 1000, total: 0, activities: [] };
+    }
+  }
+}
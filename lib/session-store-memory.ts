@@ -0,0 +1,237 @@
+/**
+ * In-Memory Session Store
+ *
+ * For local development and tests - state lives in this process only and is
+ * lost on restart (and isn't shared between serverless instances).
+ * Key expiry follows Redis semantics and is applied lazily when a key is accessed.
+ */
+
+import { KeyValueSessionStore, type SetOptions } from './session-store-kv';
+import type { SessionStoreKind } from './session-store';
+
+export class MemorySessionStore extends KeyValueSessionStore {
+  readonly kind: SessionStoreKind = 'memory';
+  protected values = new Map<string, string>(); // key -> JSON document
+  protected sets = new Map<string, Set<string>>();
+  protected zsets = new Map<string, Map<string, number>>(); // key -> member -> score
+  protected lists = new Map<string, string[]>(); // key -> JSON documents
+  protected expiresAt = new Map<string, number>(); // key -> expiry (ms timestamp)
+
+  /**
+   * Drop a key whose expiry has passed
+   */
+  private evict(key: string): void {
+    const expiry = this.expiresAt.get(key);
+    if (expiry !== undefined && expiry <= Date.now()) {
+      this.deleteKey(key);
+    }
+  }
+
+  private deleteKey(key: string): void {
+    this.values.delete(key);
+    this.sets.delete(key);
+    this.zsets.delete(key);
+    this.lists.delete(key);
+    this.expiresAt.delete(key);
+  }
+
+  private has(key: string): boolean {
+    return this.values.has(key) || this.sets.has(key) || this.zsets.has(key) || this.lists.has(key);
+  }
+
+  // Values are kept as JSON so callers never share (and mutate) stored objects
+  protected async get<T>(key: string): Promise<T | null> {
+    this.evict(key);
+    const value = this.values.get(key);
+    return value === undefined ? null : JSON.parse(value) as T;
+  }
+
+  protected async set(key: string, value: unknown, options: SetOptions = {}): Promise<void> {
+    this.write(key, value, options);
+  }
+
+  private write(key: string, value: unknown, options: SetOptions): void {
+    this.evict(key);
+    this.values.set(key, JSON.stringify(value));
+    if (options.ttlMs) {
+      this.expiresAt.set(key, Date.now() + options.ttlMs);
+    } else if (!options.keepTtl) {
+      this.expiresAt.delete(key);
+    }
+  }
+
+  protected async mget<T>(keys: string[]): Promise<(T | null)[]> {
+    return keys.map(key => {
+      this.evict(key);
+      const value = this.values.get(key);
+      return value === undefined ? null : JSON.parse(value) as T;
+    });
+  }
+
+  // Atomic here: nothing awaits between the version check and the write
+  protected async setIfVersion(key: string, expectedVersion: number, value: unknown, options: SetOptions = {}): Promise<boolean> {
+    this.evict(key);
+    const stored = this.values.get(key);
+    const version = stored === undefined ? 0 : (JSON.parse(stored)?.version ?? 1);
+    if (version !== expectedVersion) {
+      return false;
+    }
+    this.write(key, value, options);
+    return true;
+  }
+
+  // Atomic here: nothing awaits between the version check and the delete
+  protected async delIfVersion(key: string, expectedVersion: number): Promise<boolean> {
+    this.evict(key);
+    const stored = this.values.get(key);
+    if (stored === undefined || (JSON.parse(stored)?.version ?? 1) !== expectedVersion) {
+      return false;
+    }
+    this.deleteKey(key);
+    return true;
+  }
+
+  protected async incr(key: string): Promise<number> {
+    this.evict(key);
+    const value = Number(JSON.parse(this.values.get(key) ?? '0')) + 1;
+    this.values.set(key, JSON.stringify(value));
+    return value;
+  }
+
+  protected async del(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.deleteKey(key);
+    }
+  }
+
+  protected async sadd(key: string, member: string): Promise<void> {
+    this.evict(key);
+    const set = this.sets.get(key) ?? new Set<string>();
+    set.add(member);
+    this.sets.set(key, set);
+  }
+
+  protected async srem(key: string, member: string): Promise<void> {
+    this.evict(key);
+    const set = this.sets.get(key);
+    set?.delete(member);
+    if (set?.size === 0) {
+      this.deleteKey(key);
+    }
+  }
+
+  protected async smembers(key: string): Promise<string[]> {
+    this.evict(key);
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  protected async zadd(key: string, entries: Array<{ score: number; member: string }>): Promise<void> {
+    this.evict(key);
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    for (const { score, member } of entries) {
+      zset.set(member, score);
+    }
+    this.zsets.set(key, zset);
+  }
+
+  protected async zrem(key: string, members: string[]): Promise<void> {
+    this.evict(key);
+    const zset = this.zsets.get(key);
+    for (const member of members) {
+      zset?.delete(member);
+    }
+    if (zset?.size === 0) {
+      this.deleteKey(key);
+    }
+  }
+
+  protected async zrangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    this.evict(key);
+    return [...(this.zsets.get(key) ?? [])]
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || a.localeCompare(b))
+      .map(([member]) => member);
+  }
+
+  protected async zcard(key: string): Promise<number> {
+    this.evict(key);
+    return this.zsets.get(key)?.size ?? 0;
+  }
+
+  protected async zremRangeByScore(key: string, min: number, max: number): Promise<void> {
+    const members = await this.zrangeByScore(key, min, max);
+    if (members.length > 0) {
+      await this.zrem(key, members);
+    }
+  }
+
+  protected async rpush(key: string, values: unknown[]): Promise<void> {
+    this.evict(key);
+    const list = this.lists.get(key) ?? [];
+    list.push(...values.map(value => JSON.stringify(value)));
+    this.lists.set(key, list);
+  }
+
+  protected async ltrim(key: string, start: number, stop: number): Promise<void> {
+    this.evict(key);
+    const list = this.lists.get(key);
+    if (!list) return;
+    const trimmed = list.slice(...listRange(list.length, start, stop));
+    if (trimmed.length === 0) {
+      this.deleteKey(key);
+    } else {
+      this.lists.set(key, trimmed);
+    }
+  }
+
+  protected async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    this.evict(key);
+    const list = this.lists.get(key) ?? [];
+    return list.slice(...listRange(list.length, start, stop)).map(value => JSON.parse(value) as T);
+  }
+
+  protected async expire(key: string, ttlMs: number): Promise<void> {
+    this.evict(key);
+    if (this.has(key)) {
+      this.expiresAt.set(key, Date.now() + ttlMs);
+    }
+  }
+
+  protected async scan(prefix: string, _cursor: string, _count: number): Promise<{ cursor: string; keys: string[] }> {
+    // Everything in one page
+    const keys = [...this.values.keys(), ...this.sets.keys(), ...this.zsets.keys(), ...this.lists.keys()]
+      .filter(key => key.startsWith(prefix));
+    keys.forEach(key => this.evict(key));
+    return { cursor: '0', keys: keys.filter(key => this.has(key)) };
+  }
+
+  protected async pttl(keys: string[]): Promise<number[]> {
+    const now = Date.now();
+    return keys.map(key => {
+      this.evict(key);
+      if (!this.has(key)) return -2;
+      const expiry = this.expiresAt.get(key);
+      return expiry === undefined ? -1 : expiry - now;
+    });
+  }
+
+  /**
+   * Forget everything (tests)
+   */
+  clear(): void {
+    this.values.clear();
+    this.sets.clear();
+    this.zsets.clear();
+    this.lists.clear();
+    this.expiresAt.clear();
+  }
+}
+
+/**
+ * Redis list indices (inclusive, negative = from the end) as slice() bounds
+ */
+function listRange(length: number, start: number, stop: number): [number, number] {
+  const from = Math.max(0, start < 0 ? length + start : start);
+  const to = Math.min(length, (stop < 0 ? length + stop : stop) + 1);
+  return [from, Math.max(from, to)];
+}
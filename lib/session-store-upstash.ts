@@ -0,0 +1,189 @@
+/**
+ * Upstash Redis Session Store
+ *
+ * Persists sessions across serverless function invocations (production on Vercel).
+ *
+ * Environment Variables (provided by the Vercel Marketplace integration):
+ * - KV_REST_API_URL / KV_REST_API_TOKEN, or
+ * - UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN
+ */
+
+import { Redis } from '@upstash/redis';
+import { KeyValueSessionStore, type SetOptions } from './session-store-kv';
+
+// SET only if the stored document's version (1 if it has none, 0 if missing) is ARGV[1]
+// ARGV[3]: expiry in ms, 'keepttl', or '' for none
+const SET_IF_VERSION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local version = 0
+if current then
+  local ok, doc = pcall(cjson.decode, current)
+  version = (ok and type(doc) == 'table' and tonumber(doc.version)) or 1
+end
+if version ~= tonumber(ARGV[1]) then
+  return 0
+end
+if ARGV[3] == 'keepttl' then
+  redis.call('SET', KEYS[1], ARGV[2], 'KEEPTTL')
+elseif ARGV[3] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+// DEL only if the stored document's version (1 if it has none) is ARGV[1]
+const DEL_IF_VERSION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  return 0
+end
+local ok, doc = pcall(cjson.decode, current)
+local version = (ok and type(doc) == 'table' and tonumber(doc.version)) or 1
+if version ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('DEL', KEYS[1])
+return 1
+`;
+
+export class UpstashSessionStore extends KeyValueSessionStore {
+  readonly kind = 'upstash' as const;
+  private redis: Redis;
+
+  constructor(redis?: Redis) {
+    super();
+    this.redis = redis ?? new Redis({
+      url: process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+
+  /**
+   * Whether Upstash credentials are present in the environment
+   */
+  static isConfigured(): boolean {
+    return !!((process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL)
+      && (process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN));
+  }
+
+  // Upstash (de)serializes JSON values itself - every get() is a fresh object
+  protected async get<T>(key: string): Promise<T | null> {
+    return await this.redis.get<T>(key);
+  }
+
+  protected async set(key: string, value: unknown, options: SetOptions = {}): Promise<void> {
+    if (options.ttlMs) {
+      await this.redis.set(key, value, { px: options.ttlMs });
+    } else if (options.keepTtl) {
+      await this.redis.set(key, value, { keepTtl: true });
+    } else {
+      await this.redis.set(key, value);
+    }
+  }
+
+  // Lua script - runs atomically on the Redis server
+  protected async setIfVersion(key: string, expectedVersion: number, value: unknown, options: SetOptions = {}): Promise<boolean> {
+    const expiry = options.ttlMs ? String(options.ttlMs) : options.keepTtl ? 'keepttl' : '';
+    const written = await this.redis.eval<string[], number>(
+      SET_IF_VERSION_SCRIPT,
+      [key],
+      [String(expectedVersion), JSON.stringify(value), expiry]
+    );
+    return written === 1;
+  }
+
+  protected async mget<T>(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) return [];
+    return await this.redis.mget<(T | null)[]>(...keys);
+  }
+
+  // Lua script - runs atomically on the Redis server
+  protected async delIfVersion(key: string, expectedVersion: number): Promise<boolean> {
+    const deleted = await this.redis.eval<string[], number>(DEL_IF_VERSION_SCRIPT, [key], [String(expectedVersion)]);
+    return deleted === 1;
+  }
+
+  protected async incr(key: string): Promise<number> {
+    return await this.redis.incr(key);
+  }
+
+  protected async del(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.redis.del(...keys);
+  }
+
+  protected async sadd(key: string, member: string): Promise<void> {
+    await this.redis.sadd(key, member);
+  }
+
+  protected async srem(key: string, member: string): Promise<void> {
+    await this.redis.srem(key, member);
+  }
+
+  protected async smembers(key: string): Promise<string[]> {
+    return await this.redis.smembers<string[]>(key) || [];
+  }
+
+  protected async zadd(key: string, entries: Array<{ score: number; member: string }>): Promise<void> {
+    if (entries.length === 0) return;
+    const [first, ...rest] = entries;
+    await this.redis.zadd(key, first, ...rest);
+  }
+
+  protected async zrem(key: string, members: string[]): Promise<void> {
+    if (members.length === 0) return;
+    await this.redis.zrem(key, ...members);
+  }
+
+  protected async zrangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return await this.redis.zrange<string[]>(key, scoreBound(min), scoreBound(max), { byScore: true });
+  }
+
+  protected async zcard(key: string): Promise<number> {
+    return await this.redis.zcard(key);
+  }
+
+  protected async zremRangeByScore(key: string, min: number, max: number): Promise<void> {
+    await this.redis.zremrangebyscore(key, scoreBound(min), scoreBound(max));
+  }
+
+  protected async rpush(key: string, values: unknown[]): Promise<void> {
+    if (values.length === 0) return;
+    await this.redis.rpush(key, ...values);
+  }
+
+  protected async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.redis.ltrim(key, start, stop);
+  }
+
+  protected async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    return await this.redis.lrange<T>(key, start, stop);
+  }
+
+  protected async expire(key: string, ttlMs: number): Promise<void> {
+    await this.redis.pexpire(key, Math.max(1, Math.round(ttlMs)));
+  }
+
+  protected async scan(prefix: string, cursor: string, count: number): Promise<{ cursor: string; keys: string[] }> {
+    const [next, keys] = await this.redis.scan(cursor, { match: `${prefix}*`, count });
+    return { cursor: String(next), keys };
+  }
+
+  // One pipelined request for all keys
+  protected async pttl(keys: string[]): Promise<number[]> {
+    if (keys.length === 0) return [];
+    const pipeline = this.redis.pipeline();
+    for (const key of keys) {
+      pipeline.pttl(key);
+    }
+    return await pipeline.exec<number[]>();
+  }
+}
+
+function scoreBound(score: number): number | '-inf' | '+inf' {
+  if (score === Infinity) return '+inf';
+  if (score === -Infinity) return '-inf';
+  return score;
+}
@@ -4,21 +4,30 @@
  * Stores activity state so cron job can send direct Live Activity updates
  * without needing to wake the app via silent push.
  * 
- * Uses Upstash Redis (via Vercel Marketplace) for persistence across serverless function invocations.
+ * The backend is chosen by configuration:
+ * - upstash: Upstash Redis (via Vercel Marketplace) - persists across serverless invocations
+ * - memory: this process only (local development, tests)
+ * - file: JSON file on disk (self-hosting without Redis)
+ * 
+ * Environment Variables:
+ * - SESSION_STORE: 'upstash', 'memory' or 'file' (default: upstash when its credentials are set, otherwise memory)
+ * - SESSION_STORE_FILE: JSON file for the file store (default: .data/session-store.json)
+ * - SESSION_TTL_SECONDS: Sessions expire this long after their last state write (default: 2 hours)
+ * - SESSION_HISTORY_LIMIT: States kept in each session's history (default: 500)
+ * - SESSION_ENCRYPTION_KEYS / SESSION_ENCRYPTION_KEY: Encrypt push tokens and player IDs at rest (see session-crypto.ts)
  */
 
-import { Redis } from '@upstash/redis';
-
-// Upstash Redis via Vercel Marketplace provides KV_REST_API_URL and KV_REST_API_TOKEN
-const redis = new Redis({
-  url: process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL!,
-  token: process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN!,
-});
+import type { MilestoneConfig } from './milestones';
+import type { APNsEnvironment, ChannelStoragePolicy } from './apns-client';
+import type { LifecycleState, SessionLifecycle, TransitionReason } from './session-lifecycle';
+import { UpstashSessionStore } from './session-store-upstash';
+import { MemorySessionStore } from './session-store-memory';
+import { FileSessionStore } from './session-store-file';
 
 export interface ActivitySession {
   activityId: string;
   playerId: string;
-  pushToken: string;  // CRITICAL: Required for OneSignal Live Activity updates
+  pushToken: string;  // CRITICAL: Required for OneSignal Live Activity updates (empty for channel-only activities)
   state: {
     soc: number;
     watts: number;
@@ -26,206 +35,353 @@ export interface ActivitySession {
     isCharging: boolean;
   };
   lastUpdated: number; // timestamp in milliseconds
+  version: number; // Incremented by every write - writes are compare-and-set against the version read
+  schemaVersion: number; // Shape of the stored record - older ones are upgraded on read (see session-schema.ts)
+  lifecycle: SessionLifecycle; // Current state and how it got there (see session-lifecycle.ts)
+  firedMilestones?: string[]; // Milestone alerts already sent for this session (e.g. 'soc:80')
+  apnsEnvironment?: APNsEnvironment; // APNs host the pushToken belongs to (sandbox for Xcode builds)
+  channelId?: string; // Broadcast channel this activity is subscribed to (shared charger)
 }
 
-const KV_KEY_PREFIX = 'la:activity:';
-const KV_INDEX_KEY = 'la:index'; // Set of all activity IDs
+// One state received from the app, as kept in the session's history
+export type StateSample = ActivitySession['state'] & {
+  receivedAt: number; // server timestamp in milliseconds
+  clientTimestamp: number | null; // when the app captured the state (milliseconds), if it sent one
+  source: 'start' | 'update'; // endpoint that received it
+};
 
-/**
- * Get KV key for an activity
- */
-function getActivityKey(activityId: string): string {
-  return `${KV_KEY_PREFIX}${activityId}`;
+export interface BroadcastChannel {
+  channelId: string; // APNs channel ID (base64)
+  name: string; // What the channel follows, e.g. a charging station
+  storagePolicy: ChannelStoragePolicy; // 0 = no storage (pushes must expire immediately), 1 = latest push stored
+  apnsEnvironment: APNsEnvironment; // Channels exist in one APNs environment
+  createdAt: number; // timestamp in milliseconds
 }
 
-/**
- * Store activity with pushToken (called from START endpoint)
- */
-export async function storeActivity(
-  activityId: string,
-  playerId: string,
-  pushToken: string,
-  state: ActivitySession['state']
-): Promise<void> {
-  try {
-    const session: ActivitySession = {
-      activityId,
-      playerId,
-      pushToken,
-      state,
-      lastUpdated: Date.now()
-    };
-    
-    // Store the activity
-    await redis.set(getActivityKey(activityId), session);
-    
-    // Add to index set
-    await redis.sadd(KV_INDEX_KEY, activityId);
-    
-    console.log(`[SessionStore] ✅ Stored activity ${activityId.substring(0, 8)}... for player ${playerId.substring(0, 8)}... pushToken: ${pushToken.substring(0, 8)}...`);
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to store activity ${activityId.substring(0, 8)}...:`, error);
-    throw error;
-  }
+export interface PushToStartRegistration {
+  playerId: string;
+  pushToStartToken: string; // ActivityKit push-to-start token (per app install, not per activity)
+  registeredAt: number; // timestamp in milliseconds
+  lastStartRequestedAt?: number; // last server-initiated start (timestamp in milliseconds)
 }
 
-/**
- * Store or update activity state (called from UPDATE endpoint)
- */
-export async function storeActivityState(
-  activityId: string,
-  playerId: string,
-  state: ActivitySession['state']
-): Promise<void> {
-  try {
-    const existing = await redis.get<ActivitySession>(getActivityKey(activityId));
-    if (existing) {
-      // Update existing activity state
-      existing.state = state;
-      existing.lastUpdated = Date.now();
-      await redis.set(getActivityKey(activityId), existing);
-      console.log(`[SessionStore] ✅ Updated state for activityId=${activityId.substring(0, 8)}... soc=${state.soc}%`);
-    } else {
-      // Can't create without pushToken - should have been created by START
-      console.warn(`[SessionStore] ⚠️ Activity ${activityId.substring(0, 8)}... not found - cannot store state without pushToken. It should have been created by START endpoint.`);
+export interface DeviceRegistration {
+  playerId: string;
+  deviceToken: string; // Regular APNs device token (for silent background pushes, not Live Activity updates)
+  registeredAt: number; // timestamp in milliseconds
+  apnsEnvironment?: APNsEnvironment; // APNs host the deviceToken belongs to
+}
+
+// Outcome of a session write - `conflict` means another writer changed the session first,
+// `invalid_transition` that its lifecycle state doesn't allow the write (`current` is what's stored now)
+export type ActivityWriteResult =
+  | { ok: true; session: ActivitySession }
+  | { ok: false; reason: 'not_found' | 'conflict' | 'invalid_transition' | 'error'; current: ActivitySession | null };
+
+// Exclusive, expiring lock on a named job (e.g. one update-cron run at a time)
+export interface Lease {
+  name: string;
+  holder: string; // Who acquired it, e.g. a cron run ID
+  fencingToken: number; // Grows with every acquisition - a holder whose token is no longer current has lost the lease
+  acquiredAt: number; // timestamp in milliseconds
+  expiresAt: number; // timestamp in milliseconds
+}
+
+export type SessionStoreKind = 'upstash' | 'memory' | 'file';
+
+export interface SessionStoreStats {
+  backend: SessionStoreKind;
+  sessionTtlSeconds: number;
+  total: number;
+  activities: Array<{ activityId: string; lifecycleState: LifecycleState; lastUpdated: string; ageMinutes: number; ttlSeconds: number | null }>;
+}
+
+export interface SessionMigrationReport {
+  dryRun: boolean;
+  schemaVersion: number; // Current schema version sessions are rewritten with
+  total: number;
+  bySchemaVersion: Record<number, number>; // Sessions per stored schema version, before migrating
+  rewritten: number;
+  failed: string[]; // Activity IDs (truncated)
+  // Push-to-start and device token registrations - they never expire, so only a migration re-encrypts them all
+  registrations: { total: number; rewritten: number; failed: number };
+}
+
+export interface SessionStore {
+  readonly kind: SessionStoreKind;
+
+  /**
+   * Store activity with pushToken (called from START endpoint)
+   * Replaces the stored session, or with expectedVersion only the version the caller read (0 = create only)
+   * The session starts `pending` (or `lifecycle.state`) - fails with `invalid_transition` if the stored one is ending or ended
+   */
+  storeActivity(
+    activityId: string,
+    playerId: string,
+    pushToken: string,
+    state: ActivitySession['state'],
+    options?: {
+      apnsEnvironment?: APNsEnvironment;
+      channelId?: string;
+      expectedVersion?: number;
+      lifecycle?: { state: 'pending' | 'active'; reason: TransitionReason };
     }
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to update activity state ${activityId.substring(0, 8)}...:`, error);
-    throw error;
-  }
+  ): Promise<ActivityWriteResult>;
+  /** Update the state of an existing activity */
+  storeActivityState(activityId: string, playerId: string, state: ActivitySession['state']): Promise<ActivityWriteResult>;
+  /**
+   * Update activity state (and record fired milestones in the same write) - makes the session active
+   * With expectedVersion, fails with `conflict` if the session changed since the caller read it,
+   * and with `invalid_transition` if the session is no longer live (ending, ended, failed)
+   */
+  updateActivityState(
+    activityId: string,
+    state: ActivitySession['state'],
+    options?: { expectedVersion?: number; firedMilestones?: string[] }
+  ): Promise<ActivityWriteResult>;
+  getActivity(activityId: string): Promise<ActivitySession | null>;
+  /** Live sessions of a player */
+  getActivitiesForPlayer(playerId: string): Promise<ActivitySession[]>;
+  /** Live sessions registered with a push token - more than one means the token was reused for another activity */
+  getActivitiesForPushToken(pushToken: string): Promise<ActivitySession[]>;
+  /**
+   * Move a session to another lifecycle state and record why (merged into concurrent writes)
+   * Fails with `invalid_transition` if the state machine doesn't allow it; sessions that stop being live leave the indexes
+   */
+  transitionActivity(activityId: string, to: LifecycleState, reason: TransitionReason): Promise<ActivityWriteResult>;
+  /** Delete a session outright (transitionActivity() to `ended` keeps it until its TTL) */
+  removeActivity(activityId: string): Promise<void>;
+  /** All live activities updated within the threshold (default 15 minutes) - read-only, older ones are left for cleanupStaleActivities() */
+  getAllActiveActivities(staleThresholdMs?: number): Promise<ActivitySession[]>;
+  /** End activities older than the threshold (`stale_timeout`) and return them, so the caller can end them on the device */
+  cleanupStaleActivities(staleThresholdMs?: number): Promise<ActivitySession[]>;
+  /** Remember which APNs environment a session's push token works on (merged into concurrent writes) */
+  setActivityApnsEnvironment(activityId: string, apnsEnvironment: APNsEnvironment): Promise<void>;
+  /** Record milestone alerts fired for a session so each one fires only once (merged into concurrent writes) */
+  recordFiredMilestones(activityId: string, milestoneIds: string[]): Promise<void>;
+  /** Append a received state to the session's capped history (oldest samples are dropped) */
+  appendStateHistory(activityId: string, sample: StateSample): Promise<void>;
+  /** The session's most recent states, oldest first */
+  getStateHistory(activityId: string, limit?: number): Promise<StateSample[]>;
+
+  storeMilestoneConfig(playerId: string, config: Partial<MilestoneConfig>): Promise<MilestoneConfig>;
+  /** A player's milestone alert config (defaults if none stored) */
+  getMilestoneConfig(playerId: string | undefined): Promise<MilestoneConfig>;
+
+  /** Replaces any previous token - iOS rotates it and the latest one wins */
+  storePushToStartToken(playerId: string, pushToStartToken: string): Promise<void>;
+  getPushToStartToken(playerId: string): Promise<PushToStartRegistration | null>;
+  /** Record that the server just sent a push-to-start (avoids duplicate starts before the app reports back) */
+  markPushToStartRequested(playerId: string): Promise<void>;
+  removePushToStartToken(playerId: string): Promise<void>;
+
+  storeDeviceToken(playerId: string, deviceToken: string, options?: { apnsEnvironment?: APNsEnvironment }): Promise<void>;
+  getDeviceToken(playerId: string): Promise<DeviceRegistration | null>;
+  setDeviceApnsEnvironment(playerId: string, apnsEnvironment: APNsEnvironment): Promise<void>;
+  removeDeviceToken(playerId: string): Promise<void>;
+
+  storeChannel(channel: BroadcastChannel): Promise<void>;
+  getChannel(channelId: string): Promise<BroadcastChannel | null>;
+  getAllChannels(): Promise<BroadcastChannel[]>;
+  removeChannel(channelId: string): Promise<void>;
+
+  /** Take the lease if nobody holds it (null if it's held - throws if the store fails) */
+  acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null>;
+  /** Whether the lease is still held with this fencing token (false once it expired and was taken over) */
+  checkLease(lease: Lease): Promise<boolean>;
+  /** Give the lease up - only if it's still ours */
+  releaseLease(lease: Lease): Promise<void>;
+  /** Current holder of a lease (null if free) */
+  getLease(name: string): Promise<Lease | null>;
+
+  /**
+   * Rewrite every stored session in the current schema, and re-encrypt token registrations under the newest key
+   * (dry run: only count them)
+   */
+  migrateSessions(options?: { dryRun?: boolean }): Promise<SessionMigrationReport>;
+
+  /** Store stats (for debugging) */
+  getStoreStats(): Promise<SessionStoreStats>;
 }
 
+let sessionStore: SessionStore | null = null;
+
 /**
- * Update activity state (alternative to storeActivityState)
+ * Create the store selected by SESSION_STORE
+ * In production the in-memory fallback must be chosen explicitly (SESSION_STORE=memory)
  */
-export async function updateActivityState(
-  activityId: string,
-  state: ActivitySession['state']
-): Promise<boolean> {
-  try {
-    const existing = await redis.get<ActivitySession>(getActivityKey(activityId));
-    if (existing) {
-      existing.state = state;
-      existing.lastUpdated = Date.now();
-      await redis.set(getActivityKey(activityId), existing);
-      console.log(`[SessionStore] ✅ Updated state for activityId=${activityId.substring(0, 8)}... soc=${state.soc}%`);
-      return true;
+function createSessionStore(): SessionStore {
+  const requested = process.env.SESSION_STORE?.trim().toLowerCase();
+  if (requested && requested !== 'upstash' && requested !== 'memory' && requested !== 'file') {
+    console.warn(`[SessionStore] Unknown SESSION_STORE "${requested}" - expected 'upstash', 'memory' or 'file'`);
+  }
+
+  if (requested === 'file') {
+    const store = new FileSessionStore();
+    console.log(`[SessionStore] Using file store: ${store.filePath}`);
+    return store;
+  }
+  if (requested === 'upstash' || (requested !== 'memory' && UpstashSessionStore.isConfigured())) {
+    return new UpstashSessionStore();
+  }
+  if (requested !== 'memory') {
+    // Every serverless instance would keep its own sessions - fail instead of silently losing them
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('No session store configured - set KV_REST_API_URL/KV_REST_API_TOKEN, or SESSION_STORE=memory or file');
     }
-    console.warn(`[SessionStore] ⚠️ Activity ${activityId.substring(0, 8)}... not found for update`);
-    return false;
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to update activity state ${activityId.substring(0, 8)}...:`, error);
-    return false;
+    console.warn('[SessionStore] ⚠️ No Upstash credentials - using in-memory store (sessions are lost on restart)');
   }
+  return new MemorySessionStore();
 }
 
-/**
- * Get activity by activityId
- */
-export async function getActivity(activityId: string): Promise<ActivitySession | null> {
-  try {
-    const session = await redis.get<ActivitySession>(getActivityKey(activityId));
-    return session || null;
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to get activity ${activityId.substring(0, 8)}...:`, error);
-    return null;
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    sessionStore = createSessionStore();
   }
+  return sessionStore;
 }
 
 /**
- * Remove activity from store (when ended)
+ * Replace the store (e.g. a MemorySessionStore in tests) - null re-reads SESSION_STORE on next use
  */
-export async function removeActivity(activityId: string): Promise<void> {
-  try {
-    await redis.del(getActivityKey(activityId));
-    await redis.srem(KV_INDEX_KEY, activityId);
-    console.log(`[SessionStore] ✅ Removed activityId=${activityId.substring(0, 8)}...`);
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to remove activity ${activityId.substring(0, 8)}...:`, error);
-    // Don't throw - removal failures are non-critical
-  }
+export function setSessionStore(store: SessionStore | null): void {
+  sessionStore = store;
 }
 
-/**
- * Get all active activities (not stale)
- * Activities are considered stale if not updated in the last 15 minutes
- */
-export async function getAllActiveActivities(staleThresholdMs: number = 15 * 60 * 1000): Promise<ActivitySession[]> {
-  try {
-    const now = Date.now();
-    const index = await redis.smembers<string[]>(KV_INDEX_KEY) || [];
-    
-    console.log(`[SessionStore] Found ${index.length} activities in index`);
-    
-    const active: ActivitySession[] = [];
-    for (const activityId of index) {
-      const session = await redis.get<ActivitySession>(getActivityKey(activityId));
-      if (session && (now - session.lastUpdated) < staleThresholdMs) {
-        active.push(session);
-      } else if (session && (now - session.lastUpdated) >= staleThresholdMs) {
-        // Clean up stale activity
-        console.log(`[SessionStore] 🧹 Cleaning up stale activity ${activityId.substring(0, 8)}... (age: ${Math.round((now - session.lastUpdated) / 1000)}s)`);
-        await removeActivity(activityId);
-      }
-    }
-    
-    console.log(`[SessionStore] ✅ Found ${active.length} active activities (total: ${index.length} in index)`);
-    return active;
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to get all active activities:`, error);
-    // Return empty array on error to prevent cron job failures
-    return [];
-  }
+// Module-level API - delegates to the configured store
+
+export function storeActivity(...args: Parameters<SessionStore['storeActivity']>) {
+  return getSessionStore().storeActivity(...args);
 }
 
-/**
- * Clean up stale activities (older than threshold)
- */
-export async function cleanupStaleActivities(staleThresholdMs: number = 10 * 60 * 1000): Promise<number> {
-  try {
-    const now = Date.now();
-    const index = await redis.smembers<string[]>(KV_INDEX_KEY) || [];
-    let removed = 0;
-    
-    for (const activityId of index) {
-      const session = await redis.get<ActivitySession>(getActivityKey(activityId));
-      if (session && now - session.lastUpdated >= staleThresholdMs) {
-        await removeActivity(activityId);
-        removed++;
-      }
-    }
-    
-    return removed;
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to cleanup stale activities:`, error);
-    return 0;
-  }
+export function storeActivityState(...args: Parameters<SessionStore['storeActivityState']>) {
+  return getSessionStore().storeActivityState(...args);
 }
 
-/**
- * Get store stats (for debugging)
- */
-export async function getStoreStats() {
-  try {
-    const index = await redis.smembers<string[]>(KV_INDEX_KEY) || [];
-    const activities = await Promise.all(
-      index.map(async (activityId) => {
-        const session = await redis.get<ActivitySession>(getActivityKey(activityId));
-        if (!session) return null;
-        return {
-          activityId: session.activityId.substring(0, 8) + '...',
-          lastUpdated: new Date(session.lastUpdated).toISOString(),
-          ageMinutes: Math.round((Date.now() - session.lastUpdated) / 60000)
-        };
-      })
-    );
-    
-    return {
-      total: index.length,
-      activities: activities.filter(a => a !== null)
-    };
-  } catch (error) {
-    console.error(`[SessionStore] ❌ Failed to get store stats:`, error);
-    return { total: 0, activities: [] };
-  }
+export function updateActivityState(...args: Parameters<SessionStore['updateActivityState']>) {
+  return getSessionStore().updateActivityState(...args);
+}
+
+export function getActivity(...args: Parameters<SessionStore['getActivity']>) {
+  return getSessionStore().getActivity(...args);
+}
+
+export function getActivitiesForPlayer(...args: Parameters<SessionStore['getActivitiesForPlayer']>) {
+  return getSessionStore().getActivitiesForPlayer(...args);
+}
+
+export function getActivitiesForPushToken(...args: Parameters<SessionStore['getActivitiesForPushToken']>) {
+  return getSessionStore().getActivitiesForPushToken(...args);
+}
+
+export function transitionActivity(...args: Parameters<SessionStore['transitionActivity']>) {
+  return getSessionStore().transitionActivity(...args);
+}
+
+export function removeActivity(...args: Parameters<SessionStore['removeActivity']>) {
+  return getSessionStore().removeActivity(...args);
+}
+
+export function getAllActiveActivities(...args: Parameters<SessionStore['getAllActiveActivities']>) {
+  return getSessionStore().getAllActiveActivities(...args);
+}
+
+export function cleanupStaleActivities(...args: Parameters<SessionStore['cleanupStaleActivities']>) {
+  return getSessionStore().cleanupStaleActivities(...args);
+}
+
+export function setActivityApnsEnvironment(...args: Parameters<SessionStore['setActivityApnsEnvironment']>) {
+  return getSessionStore().setActivityApnsEnvironment(...args);
+}
+
+export function recordFiredMilestones(...args: Parameters<SessionStore['recordFiredMilestones']>) {
+  return getSessionStore().recordFiredMilestones(...args);
+}
+
+export function appendStateHistory(...args: Parameters<SessionStore['appendStateHistory']>) {
+  return getSessionStore().appendStateHistory(...args);
+}
+
+export function getStateHistory(...args: Parameters<SessionStore['getStateHistory']>) {
+  return getSessionStore().getStateHistory(...args);
+}
+
+export function storeMilestoneConfig(...args: Parameters<SessionStore['storeMilestoneConfig']>) {
+  return getSessionStore().storeMilestoneConfig(...args);
+}
+
+export function getMilestoneConfig(...args: Parameters<SessionStore['getMilestoneConfig']>) {
+  return getSessionStore().getMilestoneConfig(...args);
+}
+
+export function storePushToStartToken(...args: Parameters<SessionStore['storePushToStartToken']>) {
+  return getSessionStore().storePushToStartToken(...args);
+}
+
+export function getPushToStartToken(...args: Parameters<SessionStore['getPushToStartToken']>) {
+  return getSessionStore().getPushToStartToken(...args);
+}
+
+export function markPushToStartRequested(...args: Parameters<SessionStore['markPushToStartRequested']>) {
+  return getSessionStore().markPushToStartRequested(...args);
+}
+
+export function removePushToStartToken(...args: Parameters<SessionStore['removePushToStartToken']>) {
+  return getSessionStore().removePushToStartToken(...args);
+}
+
+export function storeDeviceToken(...args: Parameters<SessionStore['storeDeviceToken']>) {
+  return getSessionStore().storeDeviceToken(...args);
+}
+
+export function getDeviceToken(...args: Parameters<SessionStore['getDeviceToken']>) {
+  return getSessionStore().getDeviceToken(...args);
+}
+
+export function setDeviceApnsEnvironment(...args: Parameters<SessionStore['setDeviceApnsEnvironment']>) {
+  return getSessionStore().setDeviceApnsEnvironment(...args);
+}
+
+export function removeDeviceToken(...args: Parameters<SessionStore['removeDeviceToken']>) {
+  return getSessionStore().removeDeviceToken(...args);
+}
+
+export function storeChannel(...args: Parameters<SessionStore['storeChannel']>) {
+  return getSessionStore().storeChannel(...args);
+}
+
+export function getChannel(...args: Parameters<SessionStore['getChannel']>) {
+  return getSessionStore().getChannel(...args);
+}
+
+export function getAllChannels(...args: Parameters<SessionStore['getAllChannels']>) {
+  return getSessionStore().getAllChannels(...args);
+}
+
+export function removeChannel(...args: Parameters<SessionStore['removeChannel']>) {
+  return getSessionStore().removeChannel(...args);
+}
+
+export function acquireLease(...args: Parameters<SessionStore['acquireLease']>) {
+  return getSessionStore().acquireLease(...args);
+}
+
+export function checkLease(...args: Parameters<SessionStore['checkLease']>) {
+  return getSessionStore().checkLease(...args);
+}
+
+export function releaseLease(...args: Parameters<SessionStore['releaseLease']>) {
+  return getSessionStore().releaseLease(...args);
+}
+
+export function getLease(...args: Parameters<SessionStore['getLease']>) {
+  return getSessionStore().getLease(...args);
+}
+
+export function migrateSessions(...args: Parameters<SessionStore['migrateSessions']>) {
+  return getSessionStore().migrateSessions(...args);
+}
+
+export function getStoreStats() {
+  return getSessionStore().getStoreStats();
 }
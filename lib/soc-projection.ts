@@ -0,0 +1,164 @@
+/**
+ * SOC Projection Between Device Reports
+ *
+ * While the app is suspended it sends no updates, and the cron would keep pushing the
+ * last reported state - the widget freezes. Instead the cron pushes an estimate: the
+ * charge rate is taken from the last few reported samples (or, without them, from the
+ * reported time to full) and the battery is charged forward by the time elapsed since
+ * the last report.
+ *
+ * Charging slows down above TAPER_START_SOC (lithium-ion constant-voltage phase): the rate
+ * falls linearly towards MIN_TAPER_FACTOR of the bulk rate at 95%. Observed rates are
+ * normalized to the bulk rate before they are projected, so samples taken during the
+ * taper don't make the projection too slow below it (and vice versa).
+ *
+ * Estimates are marked with `isEstimate: true` in the pushed content-state and never stored:
+ * the next real report from the app replaces them.
+ */
+
+import type { StateSample } from './session-store';
+import type { LiveActivityUpdatePayload } from './apns-client';
+
+// Samples used to measure the charge rate (most recent first)
+export const PROJECTION_SAMPLES = 5;
+
+// Samples older than this (before the last report) don't describe the current charge rate
+const SAMPLE_WINDOW_MS = 30 * 60 * 1000;
+
+// Don't extrapolate further than this past the last report - the session goes stale soon after
+const MAX_PROJECTION_MS = 30 * 60 * 1000;
+
+// Below this the last report is still current
+const MIN_PROJECTION_MS = 60 * 1000;
+
+const TAPER_START_SOC = 80;
+const TAPER_END_SOC = 95;
+const MIN_TAPER_FACTOR = 0.25;
+
+// Plausible bulk charge rates in %/minute - anything outside is a measurement glitch
+const MIN_BULK_RATE = 0.01;
+const MAX_BULK_RATE = 5;
+
+/**
+ * Fraction of the bulk charge rate at a state of charge
+ */
+function taperFactor(soc: number): number {
+  if (soc < TAPER_START_SOC) return 1;
+  if (soc >= TAPER_END_SOC) return MIN_TAPER_FACTOR;
+  const progress = (soc - TAPER_START_SOC) / (TAPER_END_SOC - TAPER_START_SOC);
+  return 1 - progress * (1 - MIN_TAPER_FACTOR);
+}
+
+/**
+ * Minutes from `from` to `to` percent at a bulk rate of 1 %/minute (scale by 1 / bulk rate)
+ */
+function unitMinutesBetween(from: number, to: number): number {
+  // Piecewise: constant below the taper, linear taper up to TAPER_END_SOC, constant above
+  const slope = (1 - MIN_TAPER_FACTOR) / (TAPER_END_SOC - TAPER_START_SOC);
+  const segment = (a: number, b: number): number => {
+    if (b <= a) return 0;
+    if (b <= TAPER_START_SOC) return b - a;
+    if (a >= TAPER_END_SOC) return (b - a) / MIN_TAPER_FACTOR;
+    if (a < TAPER_START_SOC) return segment(a, TAPER_START_SOC) + segment(TAPER_START_SOC, b);
+    if (b > TAPER_END_SOC) return segment(a, TAPER_END_SOC) + segment(TAPER_END_SOC, b);
+    // ∫ ds / (1 - slope * (s - TAPER_START_SOC))
+    return Math.log(taperFactor(a) / taperFactor(b)) / slope;
+  };
+  return segment(Math.max(0, from), Math.min(100, to));
+}
+
+/**
+ * State of charge after charging for `minutes` at a bulk rate, starting at `soc`
+ */
+function chargeFor(soc: number, bulkRate: number, minutes: number): number {
+  let current = soc;
+  let remaining = minutes * bulkRate; // unit minutes left to spend
+  // Walk the three segments, converting unit minutes back to percent in each
+  if (current < TAPER_START_SOC) {
+    const step = Math.min(remaining, TAPER_START_SOC - current);
+    current += step;
+    remaining -= step;
+  }
+  if (remaining > 0 && current < TAPER_END_SOC) {
+    const slope = (1 - MIN_TAPER_FACTOR) / (TAPER_END_SOC - TAPER_START_SOC);
+    const toTaperEnd = unitMinutesBetween(current, TAPER_END_SOC);
+    if (remaining < toTaperEnd) {
+      // Inverse of the log in unitMinutesBetween
+      return TAPER_START_SOC + (1 - taperFactor(current) * Math.exp(-slope * remaining)) / slope;
+    }
+    current = TAPER_END_SOC;
+    remaining -= toTaperEnd;
+  }
+  return Math.min(100, current + remaining * MIN_TAPER_FACTOR);
+}
+
+/**
+ * Bulk charge rate (%/minute below the taper) measured from the most recent charging samples
+ * Null when they don't show the battery charging (too few, too close together, not rising)
+ */
+function rateFromSamples(samples: StateSample[], lastReportAt: number): number | null {
+  const sampleTime = (sample: StateSample) => sample.clientTimestamp ?? sample.receivedAt;
+
+  // The latest uninterrupted run of charging samples within the window
+  const recent: StateSample[] = [];
+  for (const sample of [...samples].sort((a, b) => sampleTime(b) - sampleTime(a))) {
+    if (!sample.isCharging || lastReportAt - sampleTime(sample) > SAMPLE_WINDOW_MS) break;
+    recent.push(sample);
+    if (recent.length === PROJECTION_SAMPLES) break;
+  }
+  if (recent.length < 2) {
+    return null;
+  }
+
+  const newest = recent[0];
+  const oldest = recent[recent.length - 1];
+  const minutes = (sampleTime(newest) - sampleTime(oldest)) / 60000;
+  if (minutes < 1 || newest.soc <= oldest.soc) {
+    return null;
+  }
+  return unitMinutesBetween(oldest.soc, newest.soc) / minutes;
+}
+
+/**
+ * Bulk charge rate implied by the time to full the app reported with its state
+ */
+function rateFromTimeToFull(state: LiveActivityUpdatePayload): number | null {
+  if (state.timeToFullMinutes <= 0) {
+    return null;
+  }
+  return unitMinutesBetween(state.soc, 100) / state.timeToFullMinutes;
+}
+
+/**
+ * Estimated current state, charged forward from the last report
+ *
+ * @param state - Last state the app reported
+ * @param lastReportAt - When it was reported (session.lastUpdated)
+ * @param samples - Recent state history of the session (any order)
+ * @returns The estimate (`isEstimate: true`), or the reported state unchanged when there is
+ *          nothing to project: not charging, already full, reported moments ago, or no usable rate
+ */
+export function projectState(
+  state: LiveActivityUpdatePayload,
+  lastReportAt: number,
+  samples: StateSample[],
+  now: number = Date.now()
+): LiveActivityUpdatePayload {
+  const elapsedMs = Math.min(now - lastReportAt, MAX_PROJECTION_MS);
+  if (!state.isCharging || state.soc >= 100 || elapsedMs < MIN_PROJECTION_MS) {
+    return state;
+  }
+
+  const rate = rateFromSamples(samples, lastReportAt) ?? rateFromTimeToFull(state);
+  if (rate === null || rate < MIN_BULK_RATE || rate > MAX_BULK_RATE) {
+    return state;
+  }
+
+  const projected = chargeFor(state.soc, rate, elapsedMs / 60000);
+  return {
+    ...state,
+    soc: Math.max(state.soc, Math.floor(projected)), // Whole percent like the app reports
+    timeToFullMinutes: Math.max(0, Math.round(unitMinutesBetween(projected, 100) / rate)),
+    isEstimate: true
+  };
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { MockAPNsServer } from '@/lib/mock-apns-server';
+import { getAPNsClient, resetAPNsClient } from '@/lib/apns-client';
+
+const TEAM_ID = 'TEAM000001';
+const BUNDLE_ID = 'com.gopetl.PETL';
+const PUSH_TOKEN = 'ab'.repeat(80);
+const state = { soc: 64, watts: 7.5, timeToFullMinutes: 40, isCharging: true };
+
+function p8(): string {
+  return crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+}
+
+describe('APNs client against the mock APNs server', () => {
+  const newKey = p8();
+  const oldKey = p8();
+  const mock = new MockAPNsServer({ teamId: TEAM_ID, bundleId: BUNDLE_ID, signingKeys: { NEWKEY0001: newKey, OLDKEY0001: oldKey } });
+  const savedEnv = { ...process.env };
+
+  beforeAll(async () => {
+    await mock.start();
+    Object.assign(process.env, mock.clientEnv(), {
+      APNS_KEYS: JSON.stringify([{ keyId: 'NEWKEY0001', key: newKey }, { keyId: 'OLDKEY0001', key: oldKey }]),
+      APNS_TEAM_ID: TEAM_ID,
+      APNS_BUNDLE_ID: BUNDLE_ID,
+      APNS_ENVIRONMENT: 'production'
+    });
+  });
+
+  afterEach(() => {
+    resetAPNsClient();
+    mock.reset();
+  });
+
+  afterAll(async () => {
+    process.env = savedEnv;
+    await mock.stop();
+  });
+
+  it('sends a valid Live Activity update with the newest key', async () => {
+    const result = await getAPNsClient().sendLiveActivityUpdate(PUSH_TOKEN, state);
+
+    expect(result).toMatchObject({ success: true, environment: 'production' });
+    expect(mock.pushes).toHaveLength(1);
+    const [push] = mock.pushes;
+    expect(push.deviceToken).toBe(PUSH_TOKEN);
+    expect(push.providerToken).toEqual({ keyId: 'NEWKEY0001', teamId: TEAM_ID });
+    expect(push.headers).toMatchObject({ 'apns-topic': `${BUNDLE_ID}.push-type.liveactivity`, 'apns-push-type': 'liveactivity' });
+    expect(push.payload.aps).toMatchObject({ event: 'update', 'content-state': state });
+  });
+
+  it('ends an activity with its final state and dismissal date', async () => {
+    const result = await getAPNsClient().sendLiveActivityEnd(PUSH_TOKEN, { ...state, isCharging: false }, { dismissalDate: 1_800_000_000 });
+
+    expect(result.success).toBe(true);
+    expect(mock.pushes[0].payload.aps).toMatchObject({ event: 'end', 'dismissal-date': 1_800_000_000 });
+  });
+
+  it('reports Unregistered tokens as a typed failure', async () => {
+    mock.failToken(PUSH_TOKEN, { status: 410, reason: 'Unregistered', timestamp: Date.now() });
+    const result = await getAPNsClient().sendLiveActivityUpdate(PUSH_TOKEN, state, { environment: 'production' });
+
+    expect(result.success).toBe(false);
+    expect(result.failure?.reason).toBe('Unregistered');
+  });
+
+  it('re-signs with the same key after ExpiredProviderToken', async () => {
+    mock.failNext({ status: 403, reason: 'ExpiredProviderToken' });
+    const result = await getAPNsClient().sendLiveActivityUpdate(PUSH_TOKEN, state, { environment: 'production' });
+
+    expect(result.success).toBe(true);
+    expect(mock.pushes.map(p => p.response.status)).toEqual([403, 200]);
+    expect(mock.pushes[1].providerToken?.keyId).toBe('NEWKEY0001');
+  });
+
+  it('rotates to the next key after InvalidProviderToken', async () => {
+    mock.failNext({ status: 403, reason: 'InvalidProviderToken' });
+    const client = getAPNsClient();
+    const result = await client.sendLiveActivityUpdate(PUSH_TOKEN, state, { environment: 'production' });
+
+    expect(result.success).toBe(true);
+    expect(mock.pushes[1].providerToken?.keyId).toBe('OLDKEY0001');
+
+    // The retired key stays retired for later pushes
+    await client.sendLiveActivityUpdate(PUSH_TOKEN, state, { environment: 'production' });
+    expect(mock.pushes[2].providerToken?.keyId).toBe('OLDKEY0001');
+  });
+
+  it('refuses invalid content-states before they reach APNs', async () => {
+    const result = await getAPNsClient().sendLiveActivityUpdate(PUSH_TOKEN, { ...state, soc: 140 });
+
+    expect(result.success).toBe(false);
+    expect(mock.pushes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { isUnregistered, networkFailure, parseAPNsFailure } from '@/lib/apns-errors';
+
+const body = (reason: string, extra: object = {}) => JSON.stringify({ reason, ...extra });
+
+describe('APNs failures', () => {
+  it('classifies each reason APNs sends', () => {
+    expect(parseAPNsFailure(400, body('BadDeviceToken'))).toMatchObject({ kind: 'invalid-token', reason: 'BadDeviceToken', retryable: false });
+    expect(parseAPNsFailure(403, body('ExpiredProviderToken'))).toMatchObject({ kind: 'provider-token', retryable: true });
+    expect(parseAPNsFailure(403, body('InvalidProviderToken'))).toMatchObject({ kind: 'provider-token', retryable: false });
+    expect(parseAPNsFailure(429, body('TooManyRequests'))).toMatchObject({ kind: 'rate-limited', retryable: true });
+    expect(parseAPNsFailure(413, body('PayloadTooLarge'))).toMatchObject({ kind: 'payload', retryable: false });
+    expect(parseAPNsFailure(400, body('TopicDisallowed'))).toMatchObject({ kind: 'configuration', retryable: false });
+    expect(parseAPNsFailure(503, body('ServiceUnavailable'))).toMatchObject({ kind: 'server', retryable: true });
+  });
+
+  it('keeps the time a 410 token stopped being valid', () => {
+    const failure = parseAPNsFailure(410, body('Unregistered', { timestamp: 1760000000000 }));
+    expect(failure).toEqual({ kind: 'invalid-token', reason: 'Unregistered', status: 410, retryable: false, invalidSince: 1760000000000 });
+    expect(isUnregistered(failure)).toBe(true);
+  });
+
+  it('falls back to the status when the body has no reason', () => {
+    expect(parseAPNsFailure(410, '')).toMatchObject({ kind: 'invalid-token', reason: 'Unregistered' });
+    expect(parseAPNsFailure(429, 'not json')).toMatchObject({ kind: 'rate-limited', reason: 'TooManyRequests' });
+    expect(parseAPNsFailure(502, '<html>Bad Gateway</html>')).toMatchObject({ kind: 'server', reason: 'InternalServerError' });
+    expect(parseAPNsFailure(400, body('SomethingNew'))).toEqual({ kind: 'unknown', reason: 'SomethingNew', status: 400, retryable: false });
+  });
+
+  it('only treats Unregistered tokens as gone from the device', () => {
+    expect(isUnregistered(parseAPNsFailure(400, body('BadDeviceToken')))).toBe(false);
+    expect(isUnregistered(parseAPNsFailure(410, body('ExpiredToken')))).toBe(true);
+    expect(isUnregistered(networkFailure('socket hang up'))).toBe(false);
+    expect(isUnregistered(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { APNsKeyring } from '@/lib/apns-keyring';
+
+const p8 = () => crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+function keyring(...keyIds: string[]) {
+  return new APNsKeyring(keyIds.map(keyId => ({ keyId, teamId: 'TEAM000001', key: p8() })), 'com.gopetl.PETL');
+}
+
+describe('APNs keyring', () => {
+  it('signs with the newest key and caches the token', async () => {
+    const ring = keyring('NEW', 'OLD');
+    const token = await ring.getToken();
+    expect(token.keyId).toBe('NEW');
+    expect(await ring.getToken()).toBe(token);
+  });
+
+  it('re-signs with the same key after ExpiredProviderToken', async () => {
+    const ring = keyring('NEW', 'OLD');
+    const first = await ring.getToken();
+
+    expect(ring.handleRejectedToken('NEW', 'ExpiredProviderToken')).toBe(false);
+    const second = await ring.getToken();
+    expect(second).not.toBe(first);
+    expect(second.keyId).toBe('NEW');
+    expect(ring.status().keys.every(k => !k.retired)).toBe(true);
+  });
+
+  it('retires a key after InvalidProviderToken while another key can take over', async () => {
+    const ring = keyring('NEW', 'OLD');
+    expect(ring.handleRejectedToken('NEW', 'InvalidProviderToken')).toBe(true);
+    expect((await ring.getToken()).keyId).toBe('OLD');
+
+    // The last key is never retired - it just re-signs
+    expect(ring.handleRejectedToken('OLD', 'InvalidProviderToken')).toBe(false);
+    expect((await ring.getToken()).keyId).toBe('OLD');
+  });
+
+  it('does not hand out a token still being signed by a retired key', async () => {
+    const ring = keyring('NEW', 'OLD');
+    const pending = ring.getToken();
+    ring.handleRejectedToken('NEW', 'InvalidProviderToken');
+
+    expect((await ring.getToken()).keyId).toBe('OLD');
+    expect((await pending).keyId).toBe('NEW');
+  });
+
+  it('retries signing after a key fails to load', async () => {
+    const ring = new APNsKeyring([{ keyId: 'BROKEN', teamId: 'TEAM000001', key: 'not a key' }], 'com.gopetl.PETL');
+    await expect(ring.getToken()).rejects.toThrow(/Failed to sign JWT/);
+    expect(ring['pendingToken']).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import type http2 from 'http2';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockAPNsServer } from '@/lib/mock-apns-server';
+import { APNsSessionPool } from '@/lib/apns-session-pool';
+
+const PUSH_TOKEN = 'ab'.repeat(80);
+
+describe('APNs session pool against the mock APNs server', () => {
+  const key = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  const mock = new MockAPNsServer({ teamId: 'TEAM000001', bundleId: 'com.gopetl.PETL', signingKeys: { KEY0000001: key } });
+  const serverSessions: http2.ServerHttp2Session[] = [];
+  let pool: APNsSessionPool;
+
+  // Unauthenticated - the mock answers 403, which is all these tests need
+  const push = () => pool.request(mock.url, { ':path': `/3/device/${PUSH_TOKEN}`, 'apns-push-type': 'alert' }, '{"aps":{}}');
+
+  beforeAll(async () => {
+    await mock.start();
+    mock['server']!.on('session', session => serverSessions.push(session));
+  });
+
+  beforeEach(() => {
+    pool = new APNsSessionPool({ connectOptions: { ca: mock.ca } });
+  });
+
+  afterEach(() => {
+    pool.closeAll();
+    mock.reset();
+    // Drained sessions would keep the server from stopping
+    serverSessions.forEach(session => session.destroy());
+    serverSessions.length = 0;
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  it('multiplexes every request to an origin over one HTTP/2 session', async () => {
+    const responses = await Promise.all(Array.from({ length: 5 }, push));
+    await push();
+
+    expect(responses.map(r => r.status)).toEqual([403, 403, 403, 403, 403]);
+    expect(mock.pushes).toHaveLength(6);
+    expect(serverSessions).toHaveLength(1);
+    expect(pool.size()).toBe(1);
+  });
+
+  it('reconnects after APNs sends GOAWAY', async () => {
+    await push();
+    serverSessions[0].goaway();
+    await vi.waitFor(() => expect(pool.size()).toBe(0));
+
+    expect((await push()).status).toBe(403);
+    expect(serverSessions).toHaveLength(2);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    pool = new APNsSessionPool({ connectOptions: { ca: mock.ca }, idleTimeoutMs: 50, pingIntervalMs: 20 });
+    await push();
+    expect(pool.size()).toBe(1);
+
+    await vi.waitFor(() => expect(pool.size()).toBe(0));
+    await vi.waitFor(() => expect(serverSessions[0].closed).toBe(true));
+  });
+});
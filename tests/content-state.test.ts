@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PAYLOAD_BYTES, checkPayloadSize, validateContentState } from '@/lib/content-state';
+
+const state = { soc: 64, watts: 7.5, timeToFullMinutes: 40, isCharging: true };
+
+describe('content-state validation', () => {
+  it('accepts the widget schema and returns a copy', () => {
+    const result = validateContentState(state);
+    expect(result).toEqual({ ok: true, state });
+    expect(result.ok && result.state).not.toBe(state);
+  });
+
+  it('rejects missing, mistyped and out-of-range fields', () => {
+    const invalid: unknown[] = [
+      null,
+      [state],
+      'soc=64',
+      { ...state, soc: undefined },
+      { ...state, soc: 101 },
+      { ...state, soc: -1 },
+      { ...state, soc: '64' },
+      { ...state, watts: Number.NaN },
+      { ...state, timeToFullMinutes: Infinity },
+      { ...state, isCharging: 'true' }
+    ];
+    for (const input of invalid) {
+      expect(validateContentState(input).ok).toBe(false);
+    }
+  });
+
+  it('rejects fields the widget does not decode', () => {
+    expect(validateContentState({ ...state, temperature: 30 })).toEqual({ ok: false, reason: 'contentState has unexpected fields: temperature' });
+  });
+
+  it('accepts isEstimate only for outgoing pushes', () => {
+    expect(validateContentState({ ...state, isEstimate: true }).ok).toBe(false);
+    expect(validateContentState({ ...state, isEstimate: true }, { allowEstimate: true })).toEqual({ ok: true, state: { ...state, isEstimate: true } });
+    expect(validateContentState({ ...state, isEstimate: 'yes' }, { allowEstimate: true }).ok).toBe(false);
+  });
+
+  it('checks the serialized push against the 4 KB APNs limit', () => {
+    expect(checkPayloadSize({ aps: { 'content-state': state } })).toBeNull();
+    const oversized = { aps: { 'content-state': state, alert: { body: 'x'.repeat(MAX_PAYLOAD_BYTES) } } };
+    expect(checkPayloadSize(oversized)).toMatch(/exceeds the 4096 byte APNs limit/);
+  });
+});
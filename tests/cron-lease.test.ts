@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemorySessionStore } from '@/lib/session-store-memory';
+import { setSessionStore } from '@/lib/session-store';
+import {
+  UPDATE_CRON_LEASE_TTL_MS,
+  acquireUpdateCronLease,
+  checkUpdateCronLease,
+  getUpdateCronLease,
+  releaseUpdateCronLease
+} from '@/lib/cron-lease';
+
+describe('update cron lease', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    setSessionStore(new MemorySessionStore());
+  });
+
+  afterEach(() => {
+    setSessionStore(null);
+    vi.useRealTimers();
+  });
+
+  it('lets only one run hold the lease', async () => {
+    const first = await acquireUpdateCronLease();
+    expect(first).not.toBeNull();
+    expect(await acquireUpdateCronLease()).toBeNull();
+    expect(await getUpdateCronLease()).toEqual(first);
+  });
+
+  it('frees the lease when released', async () => {
+    const first = (await acquireUpdateCronLease())!;
+    await releaseUpdateCronLease(first);
+
+    expect(await getUpdateCronLease()).toBeNull();
+    expect(await acquireUpdateCronLease()).not.toBeNull();
+  });
+
+  it('fences off a run that outlived its lease', async () => {
+    const first = (await acquireUpdateCronLease())!;
+    vi.advanceTimersByTime(UPDATE_CRON_LEASE_TTL_MS + 1);
+
+    const second = (await acquireUpdateCronLease())!;
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+    expect(await checkUpdateCronLease(first)).toBe(false);
+    expect(await checkUpdateCronLease(second)).toBe(true);
+
+    // The old run can't release the new run's lease
+    await releaseUpdateCronLease(first);
+    expect(await getUpdateCronLease()).toEqual(second);
+  });
+
+  it('throws instead of reporting the lease held when the store fails', async () => {
+    const store = new MemorySessionStore();
+    vi.spyOn(store as unknown as { incr: () => Promise<number> }, 'incr').mockRejectedValue(new Error('store unavailable'));
+    setSessionStore(store);
+
+    await expect(acquireUpdateCronLease()).rejects.toThrow('store unavailable');
+  });
+});
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockAPNsServer } from '@/lib/mock-apns-server';
+import { resetAPNsClient } from '@/lib/apns-client';
+import { MemorySessionStore } from '@/lib/session-store-memory';
+import { getActivity, getStateHistory, setSessionStore } from '@/lib/session-store';
+import { POST as start } from '@/app/api/la/start/route';
+import { POST as update } from '@/app/api/la/update/route';
+import { POST as end } from '@/app/api/la/end/route';
+import { GET as cron } from '@/app/api/cron/update-live-activities/route';
+
+const TEAM_ID = 'TEAM000001';
+const BUNDLE_ID = 'com.gopetl.PETL';
+const SECRET = 'petl-test-secret';
+const CRON_SECRET = 'cron-test-secret';
+const ACTIVITY_ID = 'activity-0001';
+const PUSH_TOKEN = 'cd'.repeat(80);
+const PLAYER_ID = 'player-0001';
+
+function post(path: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-petl-secret': SECRET },
+    body: JSON.stringify(body)
+  });
+}
+
+function runCron(): Promise<Response> {
+  return cron(new NextRequest('http://localhost/api/cron/update-live-activities', {
+    headers: { authorization: `Bearer ${CRON_SECRET}` }
+  }));
+}
+
+const charging = (soc: number) => ({ soc, watts: 7.5, timeToFullMinutes: 60, isCharging: true });
+
+describe('LA routes and the update cron against the mock APNs server', () => {
+  const key = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  const mock = new MockAPNsServer({ teamId: TEAM_ID, bundleId: BUNDLE_ID, signingKeys: { KEY0000001: key } });
+  const savedEnv = { ...process.env };
+  const oneSignalCalls: string[] = [];
+
+  beforeAll(async () => {
+    await mock.start();
+    Object.assign(process.env, mock.clientEnv(), {
+      APNS_KEY_ID: 'KEY0000001',
+      APNS_KEY: key,
+      APNS_TEAM_ID: TEAM_ID,
+      APNS_BUNDLE_ID: BUNDLE_ID,
+      APNS_ENVIRONMENT: 'production',
+      PETL_SERVER_SECRET: SECRET,
+      CRON_SECRET,
+      ONESIGNAL_APP_ID: 'onesignal-app',
+      ONESIGNAL_REST_API_KEY: 'onesignal-key'
+    });
+  });
+
+  beforeEach(() => {
+    setSessionStore(new MemorySessionStore());
+    // OneSignal is out of scope here - accept every call
+    vi.stubGlobal('fetch', async (url: string | URL) => {
+      if (!String(url).startsWith('https://api.onesignal.com/')) {
+        throw new Error(`Unexpected fetch: ${url}`);
+      }
+      oneSignalCalls.push(String(url));
+      return Response.json({ id: 'onesignal-notification' });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    setSessionStore(null);
+    resetAPNsClient();
+    mock.reset();
+    oneSignalCalls.length = 0;
+  });
+
+  afterAll(async () => {
+    process.env = savedEnv;
+    await mock.stop();
+  });
+
+  async function startActivity(soc = 50) {
+    const response = await start(post('/api/la/start', {
+      activityId: ACTIVITY_ID,
+      laPushToken: PUSH_TOKEN,
+      contentState: charging(soc),
+      meta: { playerId: PLAYER_ID, apnsEnvironment: 'production' }
+    }));
+    expect(response.status).toBe(200);
+  }
+
+  it('pushes the latest update from the cron and ends the session once APNs reports the token Unregistered', async () => {
+    await startActivity();
+    expect((await getActivity(ACTIVITY_ID))?.lifecycle.state).toBe('active');
+
+    const updated = await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(60) }));
+    expect(updated.status).toBe(200);
+
+    const firstRun = await (await runCron()).json();
+    expect(firstRun).toMatchObject({ success: true, updated: 1 });
+    const livePushes = mock.pushes.filter(p => p.headers['apns-push-type'] === 'liveactivity');
+    expect(livePushes).toHaveLength(1);
+    expect(livePushes[0].deviceToken).toBe(PUSH_TOKEN);
+    expect(livePushes[0].payload.aps).toMatchObject({ event: 'update', 'content-state': charging(60) });
+
+    mock.reset();
+    mock.failToken(PUSH_TOKEN, { status: 410, reason: 'Unregistered', timestamp: Date.now() });
+    const secondRun = await (await runCron()).json();
+    expect(secondRun).toMatchObject({ success: true, updated: 0, failed: 1 });
+    expect(mock.pushes[0].response).toMatchObject({ status: 410, reason: 'Unregistered' });
+
+    const session = await getActivity(ACTIVITY_ID);
+    expect(session?.lifecycle).toMatchObject({ state: 'ended' });
+    expect(session?.lifecycle.transitions.at(-1)?.reason).toBe('apns_unregistered');
+
+    // Ended: the cron leaves it alone and late updates are rejected
+    mock.reset();
+    expect(await (await runCron()).json()).toMatchObject({ updated: 0 });
+    expect(mock.pushes).toHaveLength(0);
+    const late = await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(65) }));
+    expect(late.status).toBe(409);
+  });
+
+  it('rejects push tokens that are not hex strings with 400', async () => {
+    for (const laPushToken of [12345, { token: PUSH_TOKEN }, 'not-a-token']) {
+      const response = await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(60), laPushToken, meta: { playerId: PLAYER_ID } }));
+      expect(response.status).toBe(400);
+    }
+    const started = await start(post('/api/la/start', { activityId: ACTIVITY_ID, laPushToken: 12345, contentState: charging(50), meta: { playerId: PLAYER_ID } }));
+    expect(started.status).toBe(400);
+    expect(await getActivity(ACTIVITY_ID)).toBeNull();
+    expect(oneSignalCalls).toHaveLength(0);
+  });
+
+  it('keeps only states a session took in its history', async () => {
+    const noPlayer = await start(post('/api/la/start', { activityId: ACTIVITY_ID, laPushToken: PUSH_TOKEN, contentState: charging(40) }));
+    expect(noPlayer.status).toBe(400);
+    expect(await getStateHistory(ACTIVITY_ID)).toEqual([]);
+
+    await startActivity(50);
+    await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(60) }));
+    await end(post('/api/la/end', { activityId: ACTIVITY_ID }));
+    const late = await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(65) }));
+    expect(late.status).toBe(409);
+    expect((await getStateHistory(ACTIVITY_ID)).map(sample => [sample.source, sample.soc])).toEqual([['start', 50], ['update', 60]]);
+
+    // No session and no token to create one - the update is forwarded but nothing is stored
+    await update(post('/api/la/update', { activityId: 'activity-unknown', contentState: charging(70) }));
+    expect(await getActivity('activity-unknown')).toBeNull();
+    expect(await getStateHistory('activity-unknown')).toEqual([]);
+  });
+
+  it('ends an activity with an APNs end event - again if END is repeated', async () => {
+    await startActivity();
+
+    const first = await end(post('/api/la/end', { activityId: ACTIVITY_ID, reason: 'unplugged', contentState: { soc: 70, isCharging: false } }));
+    expect(first.status).toBe(200);
+    expect(mock.pushes).toHaveLength(1);
+    expect(mock.pushes[0].payload.aps).toMatchObject({ event: 'end', 'content-state': { soc: 70, isCharging: false } });
+    expect((await getActivity(ACTIVITY_ID))?.lifecycle).toMatchObject({ state: 'ended' });
+
+    const repeated = await end(post('/api/la/end', { activityId: ACTIVITY_ID }));
+    expect(repeated.status).toBe(200);
+    expect(mock.pushes).toHaveLength(2);
+    expect((await getActivity(ACTIVITY_ID))?.lifecycle.transitions.at(-1)?.reason).toBe('unplugged');
+  });
+
+  it('rejects END reasons other than user and unplugged with 400', async () => {
+    await startActivity();
+    for (const reason of ['constructor', '__proto__', 'toString', 42, { user: true }]) {
+      const response = await end(post('/api/la/end', { activityId: ACTIVITY_ID, reason }));
+      expect(response.status).toBe(400);
+    }
+    expect(mock.pushes).toHaveLength(0);
+    expect((await getActivity(ACTIVITY_ID))?.lifecycle.state).toBe('active');
+  });
+
+  it('fails the cron run with 503 when the lease cannot be taken', async () => {
+    const store = new MemorySessionStore();
+    vi.spyOn(store as unknown as { incr: () => Promise<number> }, 'incr').mockRejectedValue(new Error('store unavailable'));
+    setSessionStore(store);
+
+    const response = await runCron();
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ success: false, error: 'Could not take the cron lease' });
+    expect(mock.pushes).toHaveLength(0);
+  });
+
+  it('pushes projected states as estimates without firing milestones - the next report does', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await startActivity(70);
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(78) }));
+
+    // Suspended app: the projection passes 80% but nothing was reported yet
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    await runCron();
+    const projected = mock.pushes.find(p => p.headers['apns-push-type'] === 'liveactivity')!;
+    expect(projected.payload.aps['content-state']).toMatchObject({ isEstimate: true });
+    expect(projected.payload.aps['content-state'].soc).toBeGreaterThanOrEqual(80);
+    expect(projected.payload.aps.alert).toBeUndefined();
+    expect((await getActivity(ACTIVITY_ID))?.firedMilestones ?? []).toEqual([]);
+
+    await update(post('/api/la/update', { activityId: ACTIVITY_ID, contentState: charging(81) }));
+    expect((await getActivity(ACTIVITY_ID))?.firedMilestones).toHaveLength(1);
+  });
+
+  it('ends activities that stopped reporting via APNs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await startActivity();
+
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    await runCron();
+
+    expect(mock.pushes.map(p => p.payload.aps.event)).toEqual(['end']);
+    expect((await getActivity(ACTIVITY_ID))?.lifecycle.transitions.at(-1)?.reason).toBe('stale_timeout');
+  });
+});
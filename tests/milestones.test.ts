@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MILESTONE_CONFIG, detectMilestones, normalizeMilestoneConfig } from '@/lib/milestones';
+
+const charging = (soc: number) => ({ soc, watts: 7.5, timeToFullMinutes: 20, isCharging: true });
+
+describe('milestone detection', () => {
+  it('fires a threshold when the update crosses it', () => {
+    const result = detectMilestones(charging(79), charging(80), DEFAULT_MILESTONE_CONFIG);
+    expect(result.fired).toEqual(['soc:80']);
+    expect(result.alert).toMatchObject({ title: 'Battery at 80%', sound: 'default' });
+  });
+
+  it('fires nothing without a previous state or a crossing', () => {
+    expect(detectMilestones(null, charging(85), DEFAULT_MILESTONE_CONFIG).fired).toEqual([]);
+    expect(detectMilestones(charging(81), charging(85), DEFAULT_MILESTONE_CONFIG).fired).toEqual([]);
+  });
+
+  it('fires each milestone only once per session', () => {
+    const result = detectMilestones(charging(79), charging(80), DEFAULT_MILESTONE_CONFIG, ['soc:80']);
+    expect(result).toEqual({ alert: null, fired: [] });
+  });
+
+  it('marks every crossed threshold but alerts only the most significant', () => {
+    const result = detectMilestones(charging(75), charging(100), DEFAULT_MILESTONE_CONFIG);
+    expect(result.fired).toEqual(['soc:80', 'soc:100']);
+    expect(result.alert?.title).toBe('Fully charged');
+  });
+
+  it('alerts when charging stops, unless disabled', () => {
+    const unplugged = { ...charging(60), isCharging: false };
+    expect(detectMilestones(charging(60), unplugged, DEFAULT_MILESTONE_CONFIG).alert?.title).toBe('Charging stopped');
+
+    const config = normalizeMilestoneConfig({ notifyOnChargingStopped: false });
+    expect(detectMilestones(charging(60), unplugged, config).fired).toEqual([]);
+  });
+
+  it('normalizes thresholds to sorted whole percentages in 1-100', () => {
+    expect(normalizeMilestoneConfig({ socThresholds: [100, 0, 79.6, 150, 50, 50] }).socThresholds).toEqual([50, 80, 100]);
+    expect(normalizeMilestoneConfig(null)).toEqual(DEFAULT_MILESTONE_CONFIG);
+  });
+});
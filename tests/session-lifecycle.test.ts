@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createLifecycle, isLegalTransition, isLive, transition, type LifecycleState } from '@/lib/session-lifecycle';
+
+describe('session lifecycle', () => {
+  it('treats only pending, active and stale sessions as live', () => {
+    const live: LifecycleState[] = ['pending', 'active', 'stale'];
+    const notLive: LifecycleState[] = ['ending', 'ended', 'failed'];
+    expect(live.every(isLive)).toBe(true);
+    expect(notLive.some(isLive)).toBe(false);
+  });
+
+  it('records each transition with its time and reason', () => {
+    const started = createLifecycle('pending', 'start', 1000);
+    const active = transition(started, 'active', 'start_confirmed', 2000);
+
+    expect(active).toEqual({
+      state: 'active',
+      since: 2000,
+      transitions: [
+        { from: null, to: 'pending', at: 1000, reason: 'start' },
+        { from: 'pending', to: 'active', at: 2000, reason: 'start_confirmed' }
+      ]
+    });
+  });
+
+  it('returns the same lifecycle when already in the target state', () => {
+    const active = createLifecycle('active', 'update', 1000);
+    expect(transition(active, 'active', 'update', 2000)).toBe(active);
+  });
+
+  it('rejects illegal transitions', () => {
+    const ended = createLifecycle('ended', 'user_end', 1000);
+    expect(transition(ended, 'active', 'update')).toBeNull();
+    expect(transition(ended, 'pending', 'start')).toBeNull();
+    expect(isLegalTransition('ending', 'active')).toBe(false);
+    expect(isLegalTransition('failed', 'active')).toBe(false);
+  });
+
+  it('lets a failed START be retried', () => {
+    const failed = createLifecycle('failed', 'start_failed', 1000);
+    expect(transition(failed, 'pending', 'replaced', 2000)?.state).toBe('pending');
+  });
+
+  it('keeps only the most recent transitions', () => {
+    let lifecycle = createLifecycle('active', 'start', 0);
+    for (let i = 1; i <= 30; i++) {
+      lifecycle = transition(lifecycle, i % 2 ? 'stale' : 'active', i % 2 ? 'no_updates' : 'update', i)!;
+    }
+    expect(lifecycle.transitions).toHaveLength(20);
+    expect(lifecycle.transitions.at(-1)).toMatchObject({ to: 'active', at: 30 });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SESSION_SCHEMA_VERSION, detectSchemaVersion, upgradeSession } from '@/lib/session-schema';
+
+const state = { soc: 50, watts: 7.5, timeToFullMinutes: 60, isCharging: true };
+
+describe('session schema', () => {
+  it('detects the version of records stored before schemaVersion existed', () => {
+    const v1 = { activityId: 'a', playerId: 'p', state, lastUpdated: 1000 };
+    expect(detectSchemaVersion(v1)).toBe(1);
+    expect(detectSchemaVersion({ ...v1, pushToken: 't' })).toBe(2);
+    expect(detectSchemaVersion({ ...v1, pushToken: 't', version: 3 })).toBe(3);
+    expect(detectSchemaVersion({ ...v1, schemaVersion: 2, version: 3 })).toBe(2);
+  });
+
+  it('upgrades a version 1 record through every step', () => {
+    const { session, fromVersion } = upgradeSession({ activityId: 'a', playerId: 'p', state, lastUpdated: 1000 });
+
+    expect(fromVersion).toBe(1);
+    expect(session).toMatchObject({
+      activityId: 'a',
+      playerId: 'p',
+      state,
+      pushToken: '',
+      version: 1,
+      schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+      lifecycle: { state: 'active', since: 1000, transitions: [{ from: null, to: 'active', at: 1000, reason: 'migrated' }] }
+    });
+  });
+
+  it('keeps the fields a record already has', () => {
+    const { session } = upgradeSession({ activityId: 'a', playerId: 'p', state, lastUpdated: 1000, pushToken: 'abc', version: 7 });
+    expect(session.pushToken).toBe('abc');
+    expect(session.version).toBe(7);
+  });
+
+  it('returns records from a newer deployment unchanged', () => {
+    const record = { activityId: 'a', schemaVersion: CURRENT_SESSION_SCHEMA_VERSION + 1, futureField: true };
+    const { session, fromVersion } = upgradeSession(record);
+    expect(fromVersion).toBe(CURRENT_SESSION_SCHEMA_VERSION + 1);
+    expect(session).toEqual(record);
+  });
+});
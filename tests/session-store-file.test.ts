@@ -0,0 +1,63 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSessionStore } from '@/lib/session-store-file';
+
+const state = { soc: 50, watts: 7.5, timeToFullMinutes: 60, isCharging: true };
+
+describe('file session store', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'petl-session-store-'));
+    filePath = path.join(dir, 'session-store.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists sessions for the next process', async () => {
+    await new FileSessionStore(filePath).storeActivity('activity-1', 'player-1', 'ab'.repeat(80), state);
+
+    const reopened = new FileSessionStore(filePath);
+    expect(await reopened.getActivity('activity-1')).toMatchObject({ playerId: 'player-1', state });
+  });
+
+  it('keeps queued writes when a read runs while a write is being renamed into place', async () => {
+    const store = new FileSessionStore(filePath);
+    await store.storeActivity('activity-1', 'player-1', 'ab'.repeat(80), state);
+
+    // Another write is queued behind the next one, then a read runs between that write's rename
+    // and its mtime being recorded - it must not bring back the file's older snapshot
+    const rename = fs.rename.bind(fs);
+    let pending: Promise<unknown>[] = [];
+    const spy = vi.spyOn(fs, 'rename').mockImplementationOnce(async (from, to) => {
+      pending = [store.storeActivity('activity-3', 'player-3', 'ef'.repeat(80), state)];
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await rename(from, to);
+      pending.push(store.getActivity('activity-1'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+    });
+
+    await store.storeActivity('activity-2', 'player-2', 'cd'.repeat(80), state);
+    await Promise.all(pending);
+    spy.mockRestore();
+
+    expect(await store.getActivity('activity-3')).toMatchObject({ playerId: 'player-3' });
+    expect(await new FileSessionStore(filePath).getActivity('activity-3')).toMatchObject({ playerId: 'player-3' });
+  });
+
+  it('picks up changes another process wrote', async () => {
+    const store = new FileSessionStore(filePath);
+    await store.storeActivity('activity-1', 'player-1', 'ab'.repeat(80), state);
+    expect(await store.getActivity('activity-2')).toBeNull();
+
+    // Another instance writes after a moment, so the file's mtime moves on
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new FileSessionStore(filePath).storeActivity('activity-2', 'player-2', 'cd'.repeat(80), state);
+    expect(await store.getActivity('activity-2')).toMatchObject({ playerId: 'player-2' });
+  });
+});
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import { MemorySessionStore } from '@/lib/session-store-memory';
+import { CURRENT_SESSION_SCHEMA_VERSION } from '@/lib/session-schema';
+
+const MINUTE = 60 * 1000;
+const SESSION_TTL = 2 * 60 * MINUTE; // SESSION_TTL_SECONDS default
+const PUSH_TOKEN = 'ab'.repeat(80);
+const charging = (soc: number) => ({ soc, watts: 7.5, timeToFullMinutes: 60, isCharging: true });
+
+describe('session store', () => {
+  let store: MemorySessionStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    store = new MemorySessionStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  describe('active-activity index', () => {
+    it('returns live sessions updated within the threshold, without ending older ones', async () => {
+      await store.storeActivity('old', 'player-1', PUSH_TOKEN, charging(40), { lifecycle: { state: 'active', reason: 'start' } });
+      vi.advanceTimersByTime(20 * MINUTE);
+      await store.storeActivity('recent', 'player-2', PUSH_TOKEN.replace('ab', 'cd'), charging(50), { lifecycle: { state: 'active', reason: 'start' } });
+
+      const active = await store.getAllActiveActivities(15 * MINUTE);
+      expect(active.map(s => s.activityId)).toEqual(['recent']);
+      expect((await store.getActivity('old'))?.lifecycle.state).toBe('active');
+    });
+
+    it('ends sessions past the threshold in cleanupStaleActivities and drops them from the index', async () => {
+      await store.storeActivity('old', 'player-1', PUSH_TOKEN, charging(40), { lifecycle: { state: 'active', reason: 'start' } });
+      vi.advanceTimersByTime(20 * MINUTE);
+
+      const ended = await store.cleanupStaleActivities(15 * MINUTE);
+      expect(ended.map(s => s.activityId)).toEqual(['old']);
+      expect((await store.getActivity('old'))?.lifecycle.transitions.at(-1)?.reason).toBe('stale_timeout');
+      expect(await store.cleanupStaleActivities(15 * MINUTE)).toEqual([]);
+      expect(await store.getAllActiveActivities(60 * MINUTE)).toEqual([]);
+    });
+
+    it('leaves sessions that are no longer live out of the active list', async () => {
+      await store.storeActivity('ended', 'player-1', PUSH_TOKEN, charging(40), { lifecycle: { state: 'active', reason: 'start' } });
+      await store.transitionActivity('ended', 'ended', 'user_end');
+      expect(await store.getAllActiveActivities()).toEqual([]);
+    });
+  });
+
+  describe('session TTL', () => {
+    it('expires a session SESSION_TTL_SECONDS after its last state write', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      vi.advanceTimersByTime(SESSION_TTL - MINUTE);
+      expect((await store.updateActivityState('a1', charging(45))).ok).toBe(true);
+
+      vi.advanceTimersByTime(SESSION_TTL - MINUTE);
+      expect((await store.getActivity('a1'))?.state.soc).toBe(45);
+
+      vi.advanceTimersByTime(MINUTE);
+      expect(await store.getActivity('a1')).toBeNull();
+    });
+
+    it('keeps the expiry of the last state write on lifecycle-only writes', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      vi.advanceTimersByTime(SESSION_TTL - MINUTE);
+      expect((await store.transitionActivity('a1', 'ended', 'user_end')).ok).toBe(true);
+
+      vi.advanceTimersByTime(MINUTE);
+      expect(await store.getActivity('a1')).toBeNull();
+    });
+
+    it('reports the remaining TTL in the store stats', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      vi.advanceTimersByTime(30 * MINUTE);
+
+      const stats = await store.getStoreStats();
+      expect(stats.sessionTtlSeconds).toBe(SESSION_TTL / 1000);
+      expect(stats.activities[0].ttlSeconds).toBe((SESSION_TTL - 30 * MINUTE) / 1000);
+    });
+  });
+
+  describe('compare-and-set', () => {
+    it('increments the version on every write', async () => {
+      const stored = await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      expect(stored.ok && stored.session.version).toBe(1);
+      const updated = await store.updateActivityState('a1', charging(45), { expectedVersion: 1 });
+      expect(updated.ok && updated.session.version).toBe(2);
+    });
+
+    it('rejects an update against a stale version and leaves the newer state', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.updateActivityState('a1', charging(45), { expectedVersion: 1 });
+
+      const stale = await store.updateActivityState('a1', charging(41), { expectedVersion: 1 });
+      expect(stale).toMatchObject({ ok: false, reason: 'conflict', current: { version: 2, state: { soc: 45 } } });
+      expect((await store.getActivity('a1'))?.state.soc).toBe(45);
+    });
+
+    it('only creates a session with expectedVersion 0', async () => {
+      expect((await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40), { expectedVersion: 0 })).ok).toBe(true);
+
+      const again = await store.storeActivity('a1', 'player-2', PUSH_TOKEN, charging(50), { expectedVersion: 0 });
+      expect(again).toMatchObject({ ok: false, reason: 'conflict' });
+      expect((await store.getActivity('a1'))?.playerId).toBe('player-1');
+    });
+  });
+
+  describe('state history', () => {
+    const sample = (soc: number) => ({ ...charging(soc), receivedAt: Date.now(), clientTimestamp: null, source: 'update' as const });
+
+    it('keeps the last SESSION_HISTORY_LIMIT states, oldest first', async () => {
+      vi.stubEnv('SESSION_HISTORY_LIMIT', '3');
+      store = new MemorySessionStore();
+      for (const soc of [40, 41, 42, 43, 44]) {
+        await store.appendStateHistory('a1', sample(soc));
+      }
+
+      expect((await store.getStateHistory('a1')).map(s => s.soc)).toEqual([42, 43, 44]);
+      expect((await store.getStateHistory('a1', 2)).map(s => s.soc)).toEqual([43, 44]);
+    });
+
+    it('outlives the session until SESSION_TTL_SECONDS after its last sample', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.appendStateHistory('a1', sample(40));
+      await store.transitionActivity('a1', 'ended', 'user_end');
+      vi.advanceTimersByTime(SESSION_TTL / 2);
+      await store.appendStateHistory('a1', sample(41));
+
+      vi.advanceTimersByTime(SESSION_TTL / 2 + MINUTE);
+      expect(await store.getActivity('a1')).toBeNull();
+      expect(await store.getStateHistory('a1')).toHaveLength(2);
+
+      vi.advanceTimersByTime(SESSION_TTL / 2);
+      expect(await store.getStateHistory('a1')).toEqual([]);
+    });
+  });
+
+  describe('player and push token indexes', () => {
+    const OTHER_TOKEN = 'ef'.repeat(80);
+    const ids = (sessions: Array<{ activityId: string }>) => sessions.map(s => s.activityId).sort();
+
+    it('finds every live session of a player and of a push token', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.storeActivity('a2', 'player-1', OTHER_TOKEN, charging(50));
+      await store.storeActivity('a3', 'player-2', '', charging(60), { channelId: 'channel-1' });
+
+      expect(ids(await store.getActivitiesForPlayer('player-1'))).toEqual(['a1', 'a2']);
+      expect(ids(await store.getActivitiesForPushToken(OTHER_TOKEN))).toEqual(['a2']);
+      expect(ids(await store.getActivitiesForPlayer('player-2'))).toEqual(['a3']);
+    });
+
+    it('drops a session from the old push token when a START replaces its token', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.storeActivity('a1', 'player-1', OTHER_TOKEN, charging(40));
+
+      expect(await store.getActivitiesForPushToken(PUSH_TOKEN)).toEqual([]);
+      expect(ids(await store.getActivitiesForPushToken(OTHER_TOKEN))).toEqual(['a1']);
+    });
+
+    it('leaves ended and removed sessions out', async () => {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.storeActivity('a2', 'player-1', OTHER_TOKEN, charging(50));
+      await store.transitionActivity('a1', 'ended', 'user_end');
+      await store.removeActivity('a2');
+
+      expect(await store.getActivitiesForPlayer('player-1')).toEqual([]);
+      expect(await store.getActivitiesForPushToken(PUSH_TOKEN)).toEqual([]);
+      expect(await store.getActivitiesForPushToken(OTHER_TOKEN)).toEqual([]);
+    });
+
+    it('warns when a push token is stored for a second activity', async () => {
+      const warn = vi.spyOn(console, 'warn');
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.storeActivity('a2', 'player-1', PUSH_TOKEN, charging(40));
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('is also registered under a1...'));
+      expect(ids(await store.getActivitiesForPushToken(PUSH_TOKEN))).toEqual(['a1', 'a2']);
+      warn.mockRestore();
+    });
+  });
+
+  describe('encryption at rest', () => {
+    const OLD_KEY = { keyId: 'old', key: crypto.randomBytes(32).toString('base64') };
+    const NEW_KEY = { keyId: 'new', key: crypto.randomBytes(32).toString('base64') };
+    const PUSH_TO_START_TOKEN = '12'.repeat(32);
+    const DEVICE_TOKEN = '34'.repeat(32);
+
+    // The same stored data, read by a server restarted with `keys`
+    function restartWith(keys: Array<typeof OLD_KEY>): MemorySessionStore {
+      vi.stubEnv('SESSION_ENCRYPTION_KEYS', JSON.stringify(keys));
+      const restarted = new MemorySessionStore();
+      restarted['values'] = store['values'];
+      restarted['sets'] = store['sets'];
+      restarted['zsets'] = store['zsets'];
+      restarted['expiresAt'] = store['expiresAt'];
+      return restarted;
+    }
+
+    async function storeEverything() {
+      await store.storeActivity('a1', 'player-1', PUSH_TOKEN, charging(40));
+      await store.storePushToStartToken('player-1', PUSH_TO_START_TOKEN);
+      await store.storeDeviceToken('player-1', DEVICE_TOKEN);
+    }
+
+    it('stores no token or player ID in plaintext', async () => {
+      store = restartWith([OLD_KEY]);
+      await storeEverything();
+
+      const stored = [...store['values'].keys(), ...store['values'].values()].join('\n');
+      for (const secret of [PUSH_TOKEN, PUSH_TO_START_TOKEN, DEVICE_TOKEN, 'player-1']) {
+        expect(stored).not.toContain(secret);
+      }
+      expect((await store.getActivity('a1'))?.pushToken).toBe(PUSH_TOKEN);
+      expect((await store.getPushToStartToken('player-1'))?.pushToStartToken).toBe(PUSH_TO_START_TOKEN);
+    });
+
+    it('re-encrypts sessions and registrations with the newest key when migrating', async () => {
+      store = restartWith([OLD_KEY]);
+      await storeEverything();
+
+      store = restartWith([NEW_KEY, OLD_KEY]);
+      expect(await store.migrateSessions({ dryRun: true })).toMatchObject({ rewritten: 0, registrations: { total: 2, rewritten: 0 } });
+      expect(await store.migrateSessions()).toMatchObject({ rewritten: 1, registrations: { total: 2, rewritten: 2, failed: 0 } });
+
+      // The old key can go - everything was rewritten under the new one
+      store = restartWith([NEW_KEY]);
+      expect((await store.getActivity('a1'))?.pushToken).toBe(PUSH_TOKEN);
+      expect((await store.getPushToStartToken('player-1'))?.pushToStartToken).toBe(PUSH_TO_START_TOKEN);
+      expect((await store.getDeviceToken('player-1'))?.deviceToken).toBe(DEVICE_TOKEN);
+    });
+
+    it('encrypts plaintext registrations and moves them off the raw player ID key', async () => {
+      await store['set']('la:pts:player-1', { playerId: 'player-1', pushToStartToken: PUSH_TO_START_TOKEN, registeredAt: Date.now() });
+
+      store = restartWith([NEW_KEY]);
+      expect((await store.migrateSessions()).registrations).toEqual({ total: 1, rewritten: 1, failed: 0 });
+      expect([...store['values'].keys()].join('\n')).not.toContain('player-1');
+      expect((await store.getPushToStartToken('player-1'))?.pushToStartToken).toBe(PUSH_TO_START_TOKEN);
+    });
+  });
+
+  describe('session migration', () => {
+    it('rewrites every stored session in the current schema - ended and unindexed ones too', async () => {
+      await store.storeActivity('current', 'player-1', PUSH_TOKEN, charging(40));
+      await store.storeActivity('ended', 'player-1', PUSH_TOKEN.replace('ab', 'cd'), charging(50));
+      await store.transitionActivity('ended', 'ended', 'user_end');
+      // Stored by a deployment before schemaVersion, versions and lifecycles existed
+      await store['set']('la:activity:legacy', { activityId: 'legacy', playerId: 'player-2', state: charging(60), lastUpdated: Date.now() });
+
+      const dryRun = await store.migrateSessions({ dryRun: true });
+      expect(dryRun).toMatchObject({ total: 3, bySchemaVersion: { 1: 1, [CURRENT_SESSION_SCHEMA_VERSION]: 2 }, rewritten: 0 });
+      expect(JSON.parse(store['values'].get('la:activity:legacy')!).schemaVersion).toBeUndefined();
+
+      const report = await store.migrateSessions();
+      expect(report).toMatchObject({ total: 3, rewritten: 3, failed: [] });
+      expect(JSON.parse(store['values'].get('la:activity:legacy')!)).toMatchObject({ schemaVersion: CURRENT_SESSION_SCHEMA_VERSION, version: 2 });
+      expect((await store.getActivity('ended'))?.lifecycle.state).toBe('ended');
+      expect((await store.migrateSessions({ dryRun: true })).bySchemaVersion).toEqual({ [CURRENT_SESSION_SCHEMA_VERSION]: 3 });
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { projectState } from '@/lib/soc-projection';
+import type { StateSample } from '@/lib/session-store';
+
+const MINUTE = 60 * 1000;
+const now = 1_800_000_000_000;
+
+function sample(minutesAgo: number, soc: number, isCharging = true): StateSample {
+  return { soc, watts: 7.5, timeToFullMinutes: 60, isCharging, receivedAt: now - minutesAgo * MINUTE, clientTimestamp: null, source: 'update' };
+}
+
+describe('SOC projection', () => {
+  it('charges forward at the rate measured from recent samples', () => {
+    // 1 %/minute over the last 4 minutes, last report 10 minutes ago
+    const samples = [sample(14, 46), sample(12, 48), sample(10, 50)];
+    const projected = projectState({ soc: 50, watts: 7.5, timeToFullMinutes: 60, isCharging: true }, now - 10 * MINUTE, samples, now);
+
+    expect(projected.soc).toBe(60);
+    expect(projected.isEstimate).toBe(true);
+    // 20 min to 80%, ~28 min through the taper to 95%, 20 min for the last 5%
+    expect(projected.timeToFullMinutes).toBe(68);
+  });
+
+  it('falls back to the reported time to full without usable samples', () => {
+    const projected = projectState({ soc: 50, watts: 7.5, timeToFullMinutes: 60, isCharging: true }, now - 10 * MINUTE, [], now);
+    expect(projected.soc).toBeGreaterThan(50);
+    expect(projected.isEstimate).toBe(true);
+  });
+
+  it('slows down above 80%', () => {
+    const samples = [sample(14, 66), sample(12, 68), sample(10, 70)];
+    const below = projectState({ soc: 70, watts: 7.5, timeToFullMinutes: 60, isCharging: true }, now - 10 * MINUTE, samples, now);
+    const above = projectState({ soc: 70, watts: 7.5, timeToFullMinutes: 60, isCharging: true }, now - 20 * MINUTE, samples.map(s => ({ ...s, receivedAt: s.receivedAt - 10 * MINUTE })), now);
+
+    expect(below.soc).toBe(80);
+    expect(above.soc).toBeGreaterThan(80);
+    expect(above.soc).toBeLessThan(90);
+  });
+
+  it('never projects past 100%', () => {
+    const samples = [sample(32, 90), sample(30, 98)];
+    const projected = projectState({ soc: 98, watts: 7.5, timeToFullMinutes: 5, isCharging: true }, now - 30 * MINUTE, samples, now);
+    expect(projected.soc).toBeLessThanOrEqual(100);
+    expect(projected.timeToFullMinutes).toBeGreaterThanOrEqual(0);
+  });
+
+  it('returns the reported state when there is nothing to project', () => {
+    const notCharging = { soc: 50, watts: 0, timeToFullMinutes: 0, isCharging: false };
+    expect(projectState(notCharging, now - 10 * MINUTE, [], now)).toBe(notCharging);
+
+    const justReported = { soc: 50, watts: 7.5, timeToFullMinutes: 60, isCharging: true };
+    expect(projectState(justReported, now - 30 * 1000, [], now)).toBe(justReported);
+
+    const noRate = { soc: 50, watts: 7.5, timeToFullMinutes: 0, isCharging: true };
+    expect(projectState(noRate, now - 10 * MINUTE, [], now)).toBe(noRate);
+  });
+});